@@ -0,0 +1,163 @@
+import { it, describe, expect } from "bun:test";
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { Window } from "happy-dom";
+import storeHook from "./hook";
+import { createStoreContext, storeProvider } from "./context";
+import objectAPI, { ObjectAPI } from "./plugin-object";
+import arrayAPI, { ArrayAPI } from "./plugin-array";
+
+type Extends<A, B> = A extends B ? true : false;
+
+describe("store context", () => {
+  it("adds the methods of the plugins to the store type", () => {
+    const EditorStore = createStoreContext({ text: "" }, [objectAPI()]);
+    const TodoStore = createStoreContext(["a"], [arrayAPI()]);
+
+    type EditorAPI = ReturnType<typeof EditorStore.useStoreAPI>;
+    type TodoAPI = ReturnType<typeof TodoStore.useStoreAPI>;
+
+    const hasObjectAPI: Extends<EditorAPI, ObjectAPI<{ text: string }>> = true;
+    const hasArrayAPI: Extends<TodoAPI, ArrayAPI<string>> = true;
+
+    expect(hasObjectAPI && hasArrayAPI).toBe(true);
+  });
+
+  it("creates a context without plugins", () => {
+    const CounterStore = createStoreContext(0 as number);
+
+    type CounterAPI = ReturnType<typeof CounterStore.useStoreAPI>;
+
+    // @ts-expect-error There is no plugin that adds `patch`.
+    const patch: CounterAPI["patch"] = undefined;
+
+    expect(patch).toBeUndefined();
+  });
+
+  it("creates a store for each provider", () => {
+    const created: unknown[] = [];
+    const { Provider, useStoreAPI } = storeProvider(() => {
+      const store = storeHook({ count: 0 });
+
+      created.push(store);
+
+      return store;
+    });
+
+    const Count = () => {
+      const count = useStoreAPI()((state) => state.count);
+
+      return React.createElement("i", null, count);
+    };
+
+    const html = renderToString(
+      React.createElement(
+        React.Fragment,
+        null,
+        React.createElement(Provider, null, React.createElement(Count)),
+        React.createElement(
+          Provider,
+          { snapshot: { count: 5 } },
+          React.createElement(Count)
+        )
+      )
+    );
+
+    expect(created).toHaveLength(2);
+    expect(html).toEqual("<i>0</i><i>5</i>");
+  });
+
+  it("destroys the store once its provider unmounts", async () => {
+    const window = new Window();
+    const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+    Object.assign(globalThis, {
+      window,
+      document: window.document,
+      IS_REACT_ACT_ENVIRONMENT: true,
+    });
+
+    try {
+      // React DOM checks for the DOM when it is loaded:
+      const { createRoot } = await import("react-dom/client");
+      const { act } = await import("react-dom/test-utils");
+      const destroyed: unknown[] = [];
+      const { Provider, useStoreAPI } = storeProvider(() => {
+        const store = storeHook({ count: 0 });
+
+        store.onDestroy(() => destroyed.push(store));
+
+        return store;
+      });
+      let used: unknown;
+
+      const Counter = () => {
+        used = useStoreAPI();
+
+        return null;
+      };
+
+      const root = createRoot(
+        window.document.createElement("div") as unknown as Element
+      );
+
+      // StrictMode unmounts and mounts the provider again right away:
+      act(() =>
+        root.render(
+          React.createElement(
+            React.StrictMode,
+            null,
+            React.createElement(Provider, null, React.createElement(Counter))
+          )
+        )
+      );
+      await tick();
+
+      expect(destroyed).not.toContain(used);
+
+      act(() => root.unmount());
+      await tick();
+
+      expect(destroyed).toContain(used);
+    } finally {
+      await window.happyDOM.close();
+
+      for (const key of ["window", "document", "IS_REACT_ACT_ENVIRONMENT"]) {
+        delete (globalThis as any)[key];
+      }
+    }
+  });
+
+  it("throws when the store is used outside of its provider", () => {
+    const { useStoreAPI } = storeProvider(() => storeHook(0));
+    const Orphan = () => {
+      useStoreAPI();
+
+      return null;
+    };
+
+    expect(() => renderToString(React.createElement(Orphan))).toThrow(
+      "The store must be used within its provider."
+    );
+  });
+
+  it("uses the store of the closest provider", () => {
+    const EditorStore = createStoreContext({ text: "" }, [objectAPI()]);
+    const Editor = () =>
+      React.createElement(
+        "p",
+        null,
+        EditorStore.useStore((s) => s.text)
+      );
+
+    const html = renderToString(
+      React.createElement(
+        EditorStore.Provider,
+        { snapshot: { text: "draft" } },
+        React.createElement(Editor)
+      )
+    );
+
+    expect(html).toEqual("<p>draft</p>");
+  });
+});
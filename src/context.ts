@@ -0,0 +1,156 @@
+import React from "react";
+import { AnyState, StateComparer } from "./store";
+import extend, { Combined, Plugin } from "./extend";
+import { StateSelector, StateSelectorHook } from "./selector";
+import storeHook, { HookOptions, StoreHook } from "./hook";
+
+/** Props for the provider of a scoped store. */
+export type StoreProviderProps<T> = {
+  /** (Optional) The state to hydrate the store with, e.g. from the server. */
+  snapshot?: T;
+  children?: React.ReactNode;
+};
+
+/** A provider of scoped stores, and hooks that use the closest store. */
+export type StoreContext<T extends AnyState, A = {}> = {
+  /** Creates a new store for its subtree, and destroys it on unmount. */
+  Provider: (props: StoreProviderProps<T>) => React.ReactElement;
+  /** Returns the state of the closest store, or selects a value from it. */
+  useStore: StateSelectorHook<T>;
+  /** Returns the closest store, with the methods from its plugins. */
+  useStoreAPI: () => StoreHook<T> & A;
+};
+
+/**
+ * Creates a provider that creates a new store for each of its instances,
+ * and a hook that returns the store of the closest provider.
+ * The store is destroyed when its provider unmounts.
+ *
+ * Use this instead of a module-level store when rendering on the server,
+ * so that state is not shared between requests.
+ * @param create Creates a store hook, e.g. with `storeHook` and plugins.
+ * @template S The type of the store hook.
+ * @example
+ * ```tsx
+ * import storeHook from "tyin/hook";
+ * import { storeProvider } from "tyin/context";
+ *
+ * const { Provider, useStoreAPI } = storeProvider(() => storeHook({ a: 1 }));
+ *
+ * const App = ({ snapshot }) => (
+ *   <Provider snapshot={snapshot}>
+ *     <Example />
+ *   </Provider>
+ * );
+ *
+ * const Example = () => {
+ *   const useExample = useStoreAPI();
+ *   const a = useExample((state) => state.a);
+ *   // ...
+ * };
+ * ```
+ */
+export function storeProvider<S extends StoreHook<any>>(create: () => S) {
+  const Context = React.createContext<S | null>(null);
+
+  const Provider = ({
+    snapshot,
+    children,
+  }: StoreProviderProps<ReturnType<S["get"]>>) => {
+    const [store] = React.useState(() => {
+      const store = create();
+
+      if (snapshot !== undefined) store.set(snapshot);
+
+      return store;
+    });
+    const destroyTimeout = React.useRef<ReturnType<typeof setTimeout>>();
+
+    React.useEffect(() => {
+      clearTimeout(destroyTimeout.current);
+
+      // StrictMode unmounts and mounts the provider again right away,
+      // so destroying the store is deferred until it stays unmounted:
+      return () => {
+        destroyTimeout.current = setTimeout(store.destroy);
+      };
+    }, [store]);
+
+    return React.createElement(Context.Provider, { value: store }, children);
+  };
+
+  const useStoreAPI = () => {
+    const store = React.useContext(Context);
+
+    if (!store) {
+      throw new Error("The store must be used within its provider.");
+    }
+
+    return store;
+  };
+
+  return { Provider, useStoreAPI };
+}
+
+/**
+ * Creates a store context: each instance of its provider has its own store,
+ * so that multiple instances of a component tree can have independent state.
+ * @param initialState The initial state of each store.
+ * @param plugins (Optional) The plugins to extend each store with, in order.
+ * @param options (Optional) Configure the default behavior of each store.
+ * @template T The type of the state.
+ * @template A The APIs that the plugins add to each store.
+ * @example
+ * ```tsx
+ * import { createStoreContext } from "tyin/context";
+ * import objectAPI from "tyin/plugin-object";
+ *
+ * const EditorStore = createStoreContext({ text: "" }, [objectAPI()]);
+ *
+ * const Editor = () => {
+ *   const text = EditorStore.useStore((state) => state.text);
+ *   const { patch } = EditorStore.useStoreAPI();
+ *   // ...
+ * };
+ *
+ * const App = () => (
+ *   <>
+ *     <EditorStore.Provider><Editor /></EditorStore.Provider>
+ *     <EditorStore.Provider><Editor /></EditorStore.Provider>
+ *   </>
+ * );
+ * ```
+ */
+export function createStoreContext<
+  T extends AnyState,
+  A extends readonly unknown[]
+>(
+  initialState: T,
+  // The empty tuple makes TypeScript infer `A` as a tuple, not an array:
+  plugins?: { [K in keyof A]: Plugin<StoreHook<T>, A[K]> } | readonly [],
+  options?: HookOptions<T>
+): StoreContext<T, Combined<A>> {
+  const { Provider, useStoreAPI } = storeProvider(() => {
+    let store = extend(storeHook(initialState, options));
+
+    for (const plugin of (plugins ?? []) as Plugin<StoreHook<T>, {}>[]) {
+      store = store.with(plugin);
+    }
+
+    return store.seal();
+  });
+
+  const useStore = (<U>(
+    select?: StateSelector<T, U>,
+    equals?: StateComparer<U>
+  ) =>
+    select
+      ? useStoreAPI()(select, equals)
+      : useStoreAPI()()) as StateSelectorHook<T>;
+
+  return {
+    Provider,
+    useStore,
+    useStoreAPI: useStoreAPI as () => StoreHook<T> & Combined<A>,
+  };
+}
@@ -13,3 +13,72 @@ test("debounce", async () => {
 
   expect(callback).toHaveBeenCalledTimes(1);
 });
+
+test("debounce flush", () => {
+  const callback = jest.fn();
+  const debounced = debounce(1000, callback);
+
+  debounced(1);
+  debounced(2);
+  debounced.flush();
+  debounced.flush();
+
+  expect(callback).toHaveBeenCalledTimes(1);
+  expect(callback).toHaveBeenCalledWith(2);
+});
+
+test("debounce cancel", async () => {
+  const callback = jest.fn();
+  const debounced = debounce(3, callback);
+
+  debounced();
+  debounced.cancel();
+
+  await new Promise((resolve) => setTimeout(resolve, 10));
+
+  expect(callback).not.toHaveBeenCalled();
+});
+
+test("debounce pending", () => {
+  const debounced = debounce(1000, () => {});
+
+  expect(debounced.pending()).toBe(false);
+
+  debounced();
+
+  expect(debounced.pending()).toBe(true);
+
+  debounced.flush();
+
+  expect(debounced.pending()).toBe(false);
+});
+
+test("debounce leading", async () => {
+  const callback = jest.fn();
+  const debounced = debounce(3, callback, { leading: true });
+
+  debounced(1);
+  debounced(2);
+
+  expect(callback).toHaveBeenCalledTimes(1);
+  expect(callback).toHaveBeenCalledWith(1);
+
+  await new Promise((resolve) => setTimeout(resolve, 10));
+
+  expect(callback).toHaveBeenCalledTimes(2);
+  expect(callback).toHaveBeenLastCalledWith(2);
+});
+
+test("debounce maxWait", async () => {
+  const callback = jest.fn();
+  const debounced = debounce(20, callback, { maxWait: 30 });
+
+  for (let i = 0; i < 5; i++) {
+    debounced(i);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  expect(callback).toHaveBeenCalled();
+
+  debounced.cancel();
+});
@@ -1,20 +1,80 @@
+/** Options for debouncing a function. */
+export type DebounceOptions = {
+  /**
+   * Calls the function right away when it is called after a period of rest,
+   * and then debounces the calls that follow.
+   *
+   * @default false
+   */
+  leading?: boolean;
+  /**
+   * The maximum time in milliseconds that a call can be delayed,
+   * so that continuous calls do not postpone the function indefinitely.
+   */
+  maxWait?: number;
+};
+
+/** A debounced function that can flush or cancel the pending call. */
+export type Debounced<T extends (...args: any[]) => void> = T & {
+  /** Calls the function right away if there is a pending call. */
+  flush: () => void;
+  /** Cancels the pending call, if any. */
+  cancel: () => void;
+  /** Returns whether there is a pending call. */
+  pending: () => boolean;
+};
+
 /**
  * Calls the function once the specified delay has passed since the last call.
  * @param delay The delay in milliseconds.
  * If the delay is zero (or less), the function will be called immediately
  * without a `setTimeout`.
  * @param fn The function to debounce. Return values are ignored.
+ * @param options (Optional) Configure when the function is called.
  */
 export default function debounce<T extends (...args: any[]) => void>(
   delay: number,
-  fn: T
-): T {
-  if (delay <= 0) return fn;
-
+  fn: T,
+  options?: DebounceOptions
+): Debounced<T> {
   let handle: any;
+  let maxHandle: any;
+  let pendingArgs: any[] | null = null;
 
-  return ((...args: any[]) => {
+  const cancel = () => {
     clearTimeout(handle);
-    handle = setTimeout(() => fn(...args), delay);
-  }) as T;
+    clearTimeout(maxHandle);
+    handle = maxHandle = undefined;
+    pendingArgs = null;
+  };
+
+  const flush = () => {
+    const args = pendingArgs;
+
+    cancel();
+    if (args) fn(...args);
+  };
+
+  const debounced = (...args: any[]) => {
+    if (delay <= 0) return fn(...args);
+
+    const isResting = handle === undefined;
+
+    clearTimeout(handle);
+    handle = setTimeout(flush, delay);
+
+    if (isResting && options?.leading) return fn(...args);
+
+    pendingArgs = args;
+
+    if (options?.maxWait !== undefined && maxHandle === undefined) {
+      maxHandle = setTimeout(flush, options.maxWait);
+    }
+  };
+
+  return Object.assign(debounced as T, {
+    flush,
+    cancel,
+    pending: () => pendingArgs !== null,
+  });
 }
@@ -0,0 +1,85 @@
+import { it, describe, expect, jest } from "bun:test";
+import createStore from "./store";
+import derive from "./derive";
+
+describe("derived store", () => {
+  it("computes the value from multiple stores", () => {
+    const count = createStore<number>(2);
+    const price = createStore<number>(3);
+    const total = derive([count, price], (count, price) => count * price);
+
+    expect(total.get()).toEqual(6);
+
+    count.set(3);
+
+    expect(total.get()).toEqual(9);
+  });
+
+  it("computes the value lazily", () => {
+    const store = createStore<number>(1);
+    const select = jest.fn((value: number) => value * 2);
+    const derived = derive([store], select);
+
+    expect(select).not.toHaveBeenCalled();
+
+    derived.get();
+    derived.get();
+
+    expect(select).toHaveBeenCalledTimes(1);
+  });
+
+  it("notifies subscribers when the value changes", () => {
+    const store = createStore<number>(1);
+    const derived = derive([store], (value) => value > 1);
+    const subscriber = jest.fn();
+
+    derived.subscribe(subscriber);
+    store.set(2);
+    store.set(3);
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenCalledWith(false, true);
+  });
+
+  it("keeps the previous value when it is deemed equal", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const derived = derive([store], ({ a }) => ({ a }), {
+      equals: (prev, next) => prev.a === next.a,
+    });
+    const value = derived.get();
+
+    store.set({ a: 1, b: 2 });
+
+    expect(derived.get()).toBe(value);
+  });
+
+  it("only subscribes to the stores while it has subscribers", () => {
+    const store = createStore<number>(1);
+    const subscribe = jest.spyOn(store, "subscribe");
+    const derived = derive([store], (value) => value);
+
+    const unsubscribe = derived.subscribe(() => {});
+    const unsubscribeAgain = derived.subscribe(() => {});
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    unsubscribeAgain();
+    derived.subscribe(() => {});
+
+    expect(subscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it("notifies listeners of selected values", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const derived = derive([store], (state) => state);
+    const listener = jest.fn();
+
+    derived.subscribe((state) => state.b, listener);
+    store.set({ a: 2, b: 1 });
+    store.set({ a: 2, b: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1, 2);
+  });
+});
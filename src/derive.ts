@@ -0,0 +1,125 @@
+import createStore, {
+  AnyState,
+  ChangeSubscriber,
+  StateComparer,
+  StoreAPI,
+  SubscribeOptions,
+} from "./store";
+
+/** A store that can be read and subscribed to, but not updated. */
+export type ReadonlyStoreAPI<T extends AnyState = AnyState> = Pick<
+  StoreAPI<T>,
+  "get" | "subscribe"
+>;
+
+/** The state types of a list of stores. */
+export type StatesOf<S extends readonly ReadonlyStoreAPI<any>[]> = {
+  [K in keyof S]: S[K] extends ReadonlyStoreAPI<infer T> ? T : never;
+};
+
+/** A function that computes a value from the states of multiple stores. */
+export type DeriveSelector<S extends readonly ReadonlyStoreAPI<any>[], U> = (
+  ...states: StatesOf<S>
+) => U;
+
+/** Defines the behavior of the derived store. */
+export type DeriveOptions<U> = {
+  /**
+   * Compares the previously computed and next value:
+   * If the values are equal, the previous value is kept,
+   * and subscribers are not notified.
+   *
+   * The default is `Object.is`.
+   */
+  equals?: StateComparer<U>;
+};
+
+/**
+ * Creates a read-only store with a value computed from one or more stores.
+ *
+ * The value is computed lazily: only when it is read,
+ * and only if the state of a source store has changed since.
+ * The derived store only subscribes to the source stores
+ * while it has subscribers of its own.
+ * @param stores The stores to derive the value from.
+ * @param select Computes the value from the states of the stores.
+ * @param options (Optional) Configure the behavior of the derived store.
+ * @template S The types of the source stores.
+ * @template U The type of the derived value.
+ * @example
+ * ```ts
+ * import derive from "tyin/derive";
+ *
+ * const totalStore = derive([useCart, usePrices], (cart, prices) =>
+ *   cart.reduce((sum, item) => sum + prices[item.id] * item.count, 0)
+ * );
+ *
+ * totalStore.subscribe((_, total) => console.log(total));
+ *
+ * // Use it in React, see `bindHook` in `tyin/hook`:
+ * const useTotal = bindHook(totalStore);
+ * ```
+ */
+export default function derive<
+  S extends readonly ReadonlyStoreAPI<any>[],
+  U extends AnyState
+>(
+  stores: [...S],
+  select: DeriveSelector<S, U>,
+  options?: DeriveOptions<U>
+): ReadonlyStoreAPI<U> {
+  const derived = createStore<U>(undefined as U, options);
+  let subscriberCount = 0;
+  let unsubscribers: (() => void)[] = [];
+  let sources: any[] | null = null;
+
+  const compute = () => {
+    const states = stores.map((store) => store.get());
+
+    if (!sources || states.some((state, i) => !Object.is(state, sources![i]))) {
+      const value = select(...(states as StatesOf<S>));
+      const isFirst = !sources;
+
+      sources = states;
+      // The first value is always kept, as there is nothing to compare it to:
+      derived.set(value, isFirst ? () => false : undefined);
+    }
+
+    return derived.get();
+  };
+
+  const subscribe: StoreAPI<U>["subscribe"] = (
+    subscriber: ChangeSubscriber<U> | ((state: U) => unknown),
+    listener?: ChangeSubscriber<unknown>,
+    options?: SubscribeOptions<unknown>
+  ) => {
+    let isSubscribed = true;
+
+    if (!subscriberCount++) {
+      compute();
+      unsubscribers = stores.map((store) => store.subscribe(compute));
+    }
+
+    const unsubscribe = listener
+      ? derived.subscribe(
+          subscriber as (state: U) => unknown,
+          listener,
+          options
+        )
+      : derived.subscribe(subscriber as ChangeSubscriber<U>);
+
+    return () => {
+      if (!isSubscribed) return;
+
+      isSubscribed = false;
+      unsubscribe();
+
+      if (!--subscriberCount) {
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+        unsubscribers = [];
+      }
+    };
+  };
+
+  return { get: compute, subscribe };
+}
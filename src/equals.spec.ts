@@ -0,0 +1,45 @@
+import { it, describe, expect, jest } from "bun:test";
+import createStore from "./store";
+import { shallow, deep, keys } from "./equals";
+
+describe("equals API", () => {
+  it("compares shallowly", () => {
+    expect(shallow({ a: 1, b: "b" }, { a: 1, b: "b" })).toBe(true);
+    expect(shallow([1, 2], [1, 2])).toBe(true);
+    expect(shallow(new Map([["a", 1]]), new Map([["a", 1]]))).toBe(true);
+    expect(shallow(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(shallow({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(shallow({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+    expect(shallow(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(false);
+  });
+
+  it("compares deeply", () => {
+    expect(deep({ a: [{ b: 1 }] }, { a: [{ b: 1 }] })).toBe(true);
+    expect(deep(new Date(1), new Date(1))).toBe(true);
+    expect(
+      deep(new Map([["a", { b: [1] }]]), new Map([["a", { b: [1] }]]))
+    ).toBe(true);
+    expect(deep(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(true);
+    expect(deep({ a: [{ b: 1 }] }, { a: [{ b: 2 }] })).toBe(false);
+    expect(deep(new Set([{ a: 1 }]), new Set([{ a: 2 }]))).toBe(false);
+    expect(deep(new Date(1), new Date(2))).toBe(false);
+    expect(deep([1], { 0: 1 })).toBe(false);
+  });
+
+  it("compares the given keys", () => {
+    const equals = keys<{ a: number; b: number }>("a");
+
+    expect(equals({ a: 1, b: 1 }, { a: 1, b: 2 })).toBe(true);
+    expect(equals({ a: 1, b: 1 }, { a: 2, b: 1 })).toBe(false);
+  });
+
+  it("can be used as the equals option of a store", () => {
+    const store = createStore({ tags: ["a"] }, { equals: deep });
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+    store.set({ tags: ["a"] });
+
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+});
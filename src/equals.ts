@@ -0,0 +1,101 @@
+import { StateComparer } from "./store";
+
+type Comparer = (a: any, b: any) => boolean;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+};
+
+/** Compares the contents of two values, using `compare` for nested values. */
+const compareContents = (a: unknown, b: unknown, compare: Comparer) => {
+  if (Object.is(a, b)) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => compare(item, b[i]));
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+
+    for (const [key, value] of a) {
+      if (!b.has(key) || !compare(value, b.get(key))) return false;
+    }
+
+    return true;
+  }
+
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+
+    const members = Array.from(b);
+
+    return Array.from(a).every(
+      (value) => b.has(value) || members.some((other) => compare(value, other))
+    );
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysOfA = Object.keys(a);
+
+    return (
+      keysOfA.length === Object.keys(b).length &&
+      keysOfA.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          compare(a[key], b[key])
+      )
+    );
+  }
+
+  return false;
+};
+
+/**
+ * Compares two values, and the items of arrays, maps, sets
+ * and the properties of plain objects with `Object.is`.
+ * @example
+ * ```ts
+ * import { shallow } from "tyin/equals";
+ *
+ * const { a, b } = useExample((state) => ({ a: state.a, b: state.b }), shallow);
+ * ```
+ */
+export const shallow = <T>(a: T, b: T): boolean =>
+  compareContents(a, b, Object.is);
+
+/**
+ * Compares two values recursively: arrays, maps, sets, dates
+ * and plain objects are equal when their contents are equal.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import { deep } from "tyin/equals";
+ *
+ * const useFilters = storeHook({ tags: ["a", "b"] }, { equals: deep });
+ * ```
+ */
+export const deep = <T>(a: T, b: T): boolean => compareContents(a, b, deep);
+
+/**
+ * Creates a comparer that only compares the given keys with `Object.is`.
+ * @param keys The keys to compare.
+ * @template T The type of the compared values.
+ * @example
+ * ```ts
+ * import { keys } from "tyin/equals";
+ *
+ * const user = useUser((state) => state, keys("id", "name"));
+ * ```
+ */
+export const keys =
+  <T extends object>(...keys: (keyof T)[]): StateComparer<T> =>
+  (a, b) =>
+    Object.is(a, b) || keys.every((key) => Object.is(a[key], b[key]));
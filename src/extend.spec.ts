@@ -1,5 +1,5 @@
 import { it, describe, expect } from "bun:test";
-import extend from "./extend";
+import extend, { compose, Plugin } from "./extend";
 
 describe("extensible lifecycle", () => {
   it("adds the with method", () => {
@@ -16,4 +16,53 @@ describe("extensible lifecycle", () => {
     expect(extendedHost.a).toEqual(1);
     expect(extendedHost.b).toEqual(2);
   });
+
+  it("allows overriding properties with the same type", () => {
+    const host = extend({ a: 1 })
+      .with(({ a }) => ({ a: a + 1 }))
+      .seal();
+
+    expect(host.a).toEqual(2);
+  });
+
+  it("rejects conflicting properties at compile time", () => {
+    const host = extend({ remove: (key: string) => key });
+
+    // @ts-expect-error The plugin replaces `remove` with a different type.
+    host.with(() => ({ remove: (index: number) => index }));
+  });
+
+  it("rejects plugins with missing host members at compile time", () => {
+    const double: Plugin<{ a: number; b: number }, { sum: () => number }> = (
+      host
+    ) => ({ sum: () => host.a + host.b });
+
+    // @ts-expect-error The host has no `b`.
+    extend({ a: 1 }).with(double);
+
+    expect(extend({ a: 1, b: 2 }).with(double).sum()).toEqual(3);
+  });
+
+  it("composes plugins", () => {
+    const preset = compose(
+      (host: { a: number }) => ({ b: host.a + 1 }),
+      (host: { a: number }) => ({ c: host.a + 2 })
+    );
+    const host = extend({ a: 1 }).with(preset).seal();
+
+    expect(host.b).toEqual(2);
+    expect(host.c).toEqual(3);
+  });
+
+  it("rejects composed plugins with conflicting properties at compile time", () => {
+    const count = () => ({ count: 1 });
+
+    // @ts-expect-error The second plugin replaces `count` with a different type.
+    compose(count, () => ({ count: "one" }));
+
+    // @ts-expect-error The plugin replaces `a` of the host with a different type.
+    compose((host: { a: number }) => ({ a: String(host.a) }));
+
+    expect(compose(count, () => ({ count: 2 }))({}).count).toEqual(2);
+  });
 });
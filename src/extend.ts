@@ -3,17 +3,68 @@
  * and returns an object with additional
  * properties that should be added to that object.
  *
+ * The type of the host declares the members that the plugin requires:
+ * Adding the plugin to an object that lacks them is a type error.
+ *
  * @param host The object to extend.
+ * @example
+ * ```ts
+ * // Requires `patch`, e.g. from `tyin/plugin-object`:
+ * const reset: Plugin<StoreAPI<Form> & ObjectAPI<Form>, ResetAPI> = (store) => ({
+ *   reset: () => store.patch({ name: "", email: "" }),
+ * });
+ * ```
  */
 export type Plugin<T extends object, P = void> = (host: T) => P;
 
+/**
+ * The properties of `P`, where the properties that also exist on `T`
+ * must keep the type they have on `T`.
+ */
+export type Compatible<T, P> = {
+  [K in keyof P]: K extends keyof T ? T[K] : P[K];
+};
+
+/** Combines a list of types into one type. */
+export type Combined<A extends readonly unknown[]> = A extends readonly [
+  infer First,
+  ...infer Rest
+]
+  ? First & Combined<Rest>
+  : {};
+
+/** The host type that satisfies all of the plugins. */
+export type HostOf<P extends readonly Plugin<any, any>[]> = Combined<{
+  [K in keyof P]: P[K] extends Plugin<infer T, any> ? T : never;
+}> &
+  object;
+
+/** The types of the properties added by each of the plugins. */
+export type APIsOf<P extends readonly Plugin<any, any>[]> = {
+  [K in keyof P]: P[K] extends Plugin<any, infer A> ? A : never;
+};
+
+/**
+ * The plugins, where each plugin must keep the types of the properties
+ * of the host, and of the properties added by the plugins before it.
+ */
+export type Composable<
+  P extends readonly unknown[],
+  Added = {}
+> = P extends readonly [Plugin<infer T, infer A>, ...infer Rest]
+  ? [Plugin<T, Compatible<Added, A>>, ...Composable<Rest, Added & A>]
+  : [];
+
 /** An object that can be extended through plugins. */
 export type Extensible<T extends object> = T & {
   /**
    * Adds the properties from the plugin to the object, and returns it.
+   *
+   * Replacing a property with a value of a different type is a type error,
+   * e.g. when two plugins add methods with the same name.
    * @param plugin A function that receives the object and returns additional properties.
    */
-  with: <P>(plugin: Plugin<T, P>) => Extensible<T & P>;
+  with: <P extends Compatible<T, P>>(plugin: Plugin<T, P>) => Extensible<T & P>;
   /**
    * Removes the `with` (and `seal`) method,
    * allowing no further plugins to be added.
@@ -51,9 +102,48 @@ function sealExtensible<T>(host: T): Sealed<T> {
  * ```
  */
 export default function extend<T extends object>(host: T): Extensible<T> {
-  const add = <P>(plugin: Plugin<T, P>) =>
+  const add = <P extends Compatible<T, P>>(plugin: Plugin<T, P>) =>
     extend(Object.assign(host, plugin(host)));
   const seal = () => sealExtensible(host) as T;
 
   return Object.assign(host, { with: add, seal });
 }
+
+/**
+ * Combines multiple plugins into one, e.g. to reuse a preset of plugins.
+ * The plugins are added in order, so each plugin receives the properties
+ * added by the plugins before it.
+ *
+ * Like with `with`, replacing a property with a value of a different type
+ * is a type error.
+ * @param plugins The plugins to combine.
+ * @template P The types of the plugins.
+ * @example
+ * ```ts
+ * import extend, { compose } from "tyin/extend";
+ *
+ * const formAPI = compose(
+ *   objectAPI<Form>(),
+ *   history<Form>(),
+ *   persist<Form>({ name: "form" })
+ * );
+ *
+ * const useForm = extend(storeHook<Form>({ name: "" })).with(formAPI).seal();
+ * ```
+ */
+export function compose<P extends Plugin<any, any>[]>(
+  ...plugins: P & Composable<P, HostOf<P>>
+): Plugin<HostOf<P>, Combined<APIsOf<P>>> {
+  return (host) => {
+    const added = {};
+
+    for (const plugin of plugins as Plugin<any, unknown>[]) {
+      const properties = plugin(host);
+
+      Object.assign(host, properties);
+      Object.assign(added, properties);
+    }
+
+    return added as Combined<APIsOf<P>>;
+  };
+}
@@ -0,0 +1,36 @@
+import { it, describe, expect } from "bun:test";
+import React from "react";
+import { renderToString } from "react-dom/server";
+import createStore from "./store";
+import derive from "./derive";
+import storeHook, { bindHook } from "./hook";
+
+const render = (hook: () => unknown) =>
+  renderToString(
+    React.createElement(() => React.createElement("p", null, String(hook())))
+  );
+
+describe("hook API", () => {
+  it("selects a value from the state", () => {
+    const useExample = storeHook({ a: 1, b: 2 });
+
+    expect(render(() => useExample((state) => state.b))).toEqual("<p>2</p>");
+  });
+
+  it("binds a hook to a derived store", () => {
+    const count = createStore<number>(2);
+    const price = createStore<number>(3);
+    const useTotal = bindHook(
+      derive([count, price], (count, price) => count * price)
+    );
+
+    expect(render(() => useTotal())).toEqual("<p>6</p>");
+    expect(render(() => useTotal((total) => total > 5))).toEqual("<p>true</p>");
+  });
+
+  it("renders the server state on the server", () => {
+    const useTheme = storeHook("dark", { getServerState: () => "light" });
+
+    expect(render(() => useTheme())).toEqual("<p>light</p>");
+  });
+});
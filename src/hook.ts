@@ -5,30 +5,10 @@ import createStore, {
   StoreOptions,
   AnyState,
 } from "./store";
+import { ReadonlyStoreAPI } from "./derive";
+import { memoSelector, StateSelector, StateSelectorHook } from "./selector";
 
-/** A function that returns a value from a state. */
-export type StateSelector<T, U = T> = (state: T) => U;
-
-/** A function that returns the current state, or selects a value from it. */
-export type StateSelectorHook<T> = {
-  /** Returns the current state. */
-  (): T;
-  /**
-   * Selects a value from the state.
-   * @param select A function that returns a value from the state.
-   * @param equals (Optional) Compare the previously selected and next value:
-   * If the values are equal between updates,
-   * the hook will not re-render.
-   * The default is `Object.is`.
-   * @example
-   * ```ts
-   * const a = useExample((state) => state.a);
-   * const b = useExample((state) => state.b, (prev, next) => next > prev);
-   * const size = useExample(() => useExample().size());
-   * ```
-   */
-  <U>(select: StateSelector<T, U>, equals?: StateComparer<U>): U;
-};
+export type { StateSelector, StateSelectorHook } from "./selector";
 
 /**
  * A hook that reacts to state changes within a store,
@@ -37,26 +17,57 @@ export type StateSelectorHook<T> = {
  */
 export type StoreHook<T extends AnyState> = StateSelectorHook<T> & StoreAPI<T>;
 
-function bindHook<T extends AnyState>(
-  store: StoreAPI<T>
+/** Defines the default behavior of the store and the hook. */
+export type HookOptions<T extends AnyState> = StoreOptions<T> & {
+  /**
+   * Returns the state to render on the server,
+   * and while hydrating server-rendered markup on the client.
+   *
+   * Use this when the client state can differ from the server state,
+   * e.g. when it is loaded from localStorage.
+   * The default is the current state of the store.
+   */
+  getServerState?: () => T;
+};
+
+/**
+ * Creates a hook that reacts to state changes within an existing store,
+ * such as a store created with `tyin/store` or `tyin/derive`.
+ * The hook has the same signature as the hooks created by `storeHook`.
+ * @param store The store to react to.
+ * @param getServerState (Optional) Returns the state to render on the server,
+ * see `HookOptions.getServerState`.
+ * @template T The type of the state.
+ * @example
+ * ```ts
+ * import { bindHook } from "tyin/hook";
+ * import derive from "tyin/derive";
+ *
+ * const useTotal = bindHook(
+ *   derive([useCart, usePrices], (cart, prices) =>
+ *     cart.reduce((sum, item) => sum + prices[item.id] * item.count, 0)
+ *   )
+ * );
+ *
+ * const total = useTotal();
+ * ```
+ */
+export function bindHook<T extends AnyState>(
+  store: ReadonlyStoreAPI<T>,
+  getServerState: () => T = store.get
 ): StateSelectorHook<T> {
   const useSelector = (
-    selector: StateSelector<any> = (state) => state,
-    equals: StateComparer<any> = Object.is
+    select?: StateSelector<T, any>,
+    equals?: StateComparer<any>
   ) => {
     const oldRef = React.useRef<any>();
-    const select = () => {
-      const oldValue = oldRef.current;
-      const newValue = selector(store.get());
-
-      if (equals(oldValue, newValue)) {
-        return oldValue;
-      } else {
-        return (oldRef.current = newValue);
-      }
-    };
+    const selectValue = memoSelector(select, equals, oldRef);
 
-    return React.useSyncExternalStore(store.subscribe, select, select);
+    return React.useSyncExternalStore(
+      store.subscribe,
+      () => selectValue(store.get()),
+      () => selectValue(getServerState())
+    );
   };
 
   return useSelector;
@@ -72,7 +83,7 @@ function bindHook<T extends AnyState>(
  * They provide a convenient API that promotes reuse,
  * which helps with reducing your overall bundle size!
  * @param initialState The initial state: can be an object, array, or primitive.
- * @param options (Optional) Configure the default behavior of the store.
+ * @param options (Optional) Configure the default behavior of the store and the hook.
  * @template T The type of the state.
  * @example
  * ```ts
@@ -87,10 +98,10 @@ function bindHook<T extends AnyState>(
  */
 export default function storeHook<T extends AnyState>(
   initialState: T,
-  options?: StoreOptions<T>
+  options?: HookOptions<T>
 ): StoreHook<T> {
   const store = createStore(initialState, options);
-  const hook = bindHook(store);
+  const hook = bindHook(store, options?.getServerState);
 
   return Object.assign(hook, store);
 }
@@ -0,0 +1,95 @@
+import { it, describe, expect } from "bun:test";
+import createStore from "./store";
+import persist, { createMemoryStorage } from "./plugin-persist";
+import { pick, omit } from "./persist-paths";
+import extend from "./extend";
+import structured from "./serializer";
+
+describe("persist paths", () => {
+  it("only persists the picked key paths", () => {
+    const storage = createMemoryStorage();
+    const store = extend(
+      createStore({ theme: "light", user: { name: "", token: "" } })
+    ).with(
+      persist({ name: "test", storage, ...pick(["theme", ["user", "name"]]) })
+    );
+
+    store.set({ theme: "dark", user: { name: "mausworks", token: "secret" } });
+
+    expect(JSON.parse(storage.getItem("test") as string).state).toEqual({
+      theme: "dark",
+      user: { name: "mausworks" },
+    });
+  });
+
+  it("omits key paths and merges the persisted state on load", () => {
+    const storage = createMemoryStorage();
+    const initialState = { isLoading: true, items: ["initial"] };
+
+    extend(createStore(initialState))
+      .with(persist({ name: "test", storage, ...omit(["isLoading"]) }))
+      .set({ isLoading: false, items: ["stored"] });
+
+    const restored = extend(createStore(initialState)).with(
+      persist({ name: "test", storage, ...omit(["isLoading"]) })
+    );
+
+    expect(restored.get()).toEqual({ isLoading: true, items: ["stored"] });
+  });
+
+  it("keeps structured values when omitting key paths", () => {
+    const storage = createMemoryStorage();
+    const initialState = {
+      isLoading: true,
+      createdAt: new Date(0),
+      tags: new Set<string>(),
+      lookup: new Map([["a", 1]]),
+    };
+    const options = {
+      name: "test",
+      storage,
+      ...omit(["isLoading"]),
+      ...structured,
+    };
+
+    extend(createStore(initialState))
+      .with(persist(options))
+      .set({
+        isLoading: false,
+        createdAt: new Date(1),
+        tags: new Set(["a"]),
+        lookup: new Map([["b", 2]]),
+      });
+
+    const restored = extend(createStore(initialState)).with(persist(options));
+
+    expect(restored.get()).toEqual({
+      isLoading: true,
+      createdAt: new Date(1),
+      tags: new Set(["a"]),
+      lookup: new Map([["b", 2]]),
+    });
+    expect(restored.get().createdAt).toBeInstanceOf(Date);
+  });
+
+  it("picks key paths from plain objects only", () => {
+    const storage = createMemoryStorage();
+    const store = extend(
+      createStore({ lookup: new Map([["a", 1]]), theme: "light" })
+    ).with(
+      persist({
+        name: "test",
+        storage,
+        ...pick(["theme", ["lookup", "a"]]),
+        ...structured,
+      })
+    );
+
+    store.set({ lookup: new Map([["a", 2]]), theme: "dark" });
+
+    expect(structured.deserialize(storage.getItem("test") as string)).toEqual({
+      state: { theme: "dark" },
+      version: 0,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/** A key, or a list of keys leading to a nested value. */
+export type KeyPath = string | readonly string[];
+
+/** The options that make the persist plugin persist part of the state. */
+export type PartialPersistOptions = {
+  select: (state: any) => any;
+  merge: (persisted: any, current: any) => any;
+};
+
+const toPath = (keyPath: KeyPath) =>
+  typeof keyPath === "string" ? [keyPath] : keyPath;
+
+// Only plain objects are walked and merged, other values (e.g. dates) are kept:
+const isPlainObject = (value: any): value is Record<string, any> => {
+  if (typeof value !== "object" || value === null) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+};
+
+const getIn = (value: any, path: readonly string[]) =>
+  path.reduce(
+    (current, key) => (isPlainObject(current) ? current[key] : undefined),
+    value
+  );
+
+const setIn = (target: any, path: readonly string[], value: any): any => {
+  const [key, ...rest] = path;
+  const source = isPlainObject(target) ? target : {};
+
+  return {
+    ...source,
+    [key]: rest.length ? setIn(source[key], rest, value) : value,
+  };
+};
+
+const removeIn = (target: any, path: readonly string[]): any => {
+  const [key, ...rest] = path;
+
+  if (!isPlainObject(target) || !(key in target)) return target;
+  if (rest.length) return { ...target, [key]: removeIn(target[key], rest) };
+
+  const { [key]: _, ...remainder } = target;
+
+  return remainder;
+};
+
+const deepMerge = (persisted: any, current: any): any => {
+  if (!isPlainObject(persisted) || !isPlainObject(current)) return persisted;
+
+  const merged = { ...current };
+
+  for (const key of Object.keys(persisted)) {
+    merged[key] = deepMerge(persisted[key], current[key]);
+  }
+
+  return merged;
+};
+
+/**
+ * Only persist the values at the given key paths,
+ * and deeply merge them into the current state on load.
+ * @param keyPaths The key paths to persist.
+ * @example
+ * ```ts
+ * import persist from "tyin/plugin-persist";
+ * import { pick } from "tyin/persist-paths";
+ *
+ * persist({ name: "Example", ...pick(["theme", ["user", "name"]]) });
+ * ```
+ */
+export const pick = (keyPaths: KeyPath[]): PartialPersistOptions => ({
+  select: (state) =>
+    keyPaths.map(toPath).reduce((picked, path) => {
+      const value = getIn(state, path);
+
+      return value === undefined ? picked : setIn(picked, path, value);
+    }, {}),
+  merge: deepMerge,
+});
+
+/**
+ * Persist everything except the values at the given key paths,
+ * and deeply merge the persisted state into the current state on load.
+ * @param keyPaths The key paths to leave out.
+ * @example
+ * ```ts
+ * import persist from "tyin/plugin-persist";
+ * import { omit } from "tyin/persist-paths";
+ *
+ * persist({ name: "Example", ...omit(["isLoading"]) });
+ * ```
+ */
+export const omit = (keyPaths: KeyPath[]): PartialPersistOptions => ({
+  select: (state) => keyPaths.map(toPath).reduce(removeIn, state),
+  merge: deepMerge,
+});
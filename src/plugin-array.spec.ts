@@ -53,4 +53,88 @@ describe("array API", () => {
 
     expect(store.get()).toEqual(["A", "B"]);
   });
+
+  it("does not mutate the previous state when sorting", () => {
+    const store = extend(createStore(["b", "a"])).with(arrayAPI());
+    const state = store.get();
+
+    store.sort((left, right) => left.localeCompare(right));
+    store.reverse();
+
+    expect(state).toEqual(["b", "a"]);
+  });
+
+  it("inserts values", () => {
+    const store = extend(createStore(["a", "d"])).with(arrayAPI());
+
+    store.insert(1, "b", "c");
+
+    expect(store.get()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("removes and replaces values at an index", () => {
+    const store = extend(createStore(["a", "b", "c"])).with(arrayAPI());
+
+    store.removeAt(0);
+    store.replaceAt(1, "d");
+
+    expect(store.get()).toEqual(["b", "d"]);
+  });
+
+  it("ignores indices that are out of range", () => {
+    const store = extend(createStore(["a"])).with(arrayAPI());
+    const state = store.get();
+
+    store.removeAt(1);
+    store.replaceAt(2, "b");
+    store.move(3, 0);
+
+    expect(store.get()).toBe(state);
+  });
+
+  it("moves values", () => {
+    const store = extend(createStore(["a", "b", "c"])).with(arrayAPI());
+
+    store.move(0, 2);
+
+    expect(store.get()).toEqual(["b", "c", "a"]);
+  });
+
+  it("splices values", () => {
+    const store = extend(createStore(["a", "b", "c"])).with(arrayAPI());
+
+    store.splice(1, 1, "d", "e");
+
+    expect(store.get()).toEqual(["a", "d", "e", "c"]);
+
+    store.splice(2);
+
+    expect(store.get()).toEqual(["a", "d"]);
+  });
+
+  it("clears values", () => {
+    const store = extend(createStore(["a", "b"])).with(arrayAPI());
+
+    store.clear();
+
+    expect(store.get()).toEqual([]);
+  });
+
+  it("upserts and removes values by key", () => {
+    const store = extend(
+      createStore([
+        { id: 1, task: "Walk the dog" },
+        { id: 2, task: "Water the plants" },
+      ])
+    ).with(arrayAPI());
+
+    store.upsertBy("id", { id: 2, task: "Do the dishes" });
+    store.upsertBy("id", { id: 3, task: "Take out the trash" });
+    store.removeBy("id", 1);
+
+    expect(store.get()).toEqual([
+      { id: 2, task: "Do the dishes" },
+      { id: 3, task: "Take out the trash" },
+    ]);
+  });
 });
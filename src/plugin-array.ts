@@ -20,6 +20,38 @@ export type ArrayAPI<T> = {
   sort: (compare: Comparator<T>) => void;
   /** Reverses the order of the values in the state. */
   reverse: () => void;
+  /** Inserts the given values at the given index. */
+  insert: (index: number, ...values: T[]) => void;
+  /** Removes the value at the given index. */
+  removeAt: (index: number) => void;
+  /** Replaces the value at the given index. */
+  replaceAt: (index: number, value: T) => void;
+  /** Moves the value at one index to another. */
+  move: (from: number, to: number) => void;
+  /**
+   * Removes values and/or inserts new values in their place,
+   * like `Array.prototype.splice`.
+   */
+  splice: (start: number, deleteCount?: number, ...values: T[]) => void;
+  /** Removes all values from the state. */
+  clear: () => void;
+  /**
+   * Replaces the value that has the same key as the given value,
+   * or appends the value if there is none.
+   * @example
+   * ```ts
+   * useTodos.upsertBy("id", { id: 2, task: "Walk the dog" });
+   * ```
+   */
+  upsertBy: <K extends keyof T>(key: K, value: T) => void;
+  /**
+   * Removes all values with the given key.
+   * @example
+   * ```ts
+   * useTodos.removeBy("id", 2);
+   * ```
+   */
+  removeBy: <K extends keyof T>(key: K, id: T[K]) => void;
 };
 
 export type MemberOf<T> = T extends any[] ? T[number] : never;
@@ -29,6 +61,19 @@ export type ArrayAPIPlugin<T extends any[] | null> = Plugin<
   ArrayAPI<MemberOf<T>>
 >;
 
+const spliced = <T>(
+  state: T[] | null,
+  start: number,
+  deleteCount: number,
+  ...values: T[]
+) => {
+  const next = [...(state ?? [])];
+
+  next.splice(start, deleteCount, ...values);
+
+  return next;
+};
+
 /**
  * Adds convenience methods for working with arrays.
  * @template T The type of the state, must be an array type.
@@ -55,9 +100,43 @@ const arrayAPI =
     map: (callback) =>
       store.set((state) => (state?.map(callback) ?? null) as T),
     sort: (compare) =>
-      store.set((state) => (state ? [...state.sort(compare)] : null) as T),
+      store.set((state) => (state ? [...state].sort(compare) : null) as T),
     reverse: () =>
-      store.set((state) => (state ? [...state.reverse()] : null) as T),
+      store.set((state) => (state ? [...state].reverse() : null) as T),
+    insert: (index, ...values) =>
+      store.set((state) => spliced(state, index, 0, ...values) as T),
+    removeAt: (index) =>
+      store.set((state) =>
+        state && index in state ? (spliced(state, index, 1) as T) : state
+      ),
+    replaceAt: (index, value) =>
+      store.set((state) =>
+        state && index in state ? (spliced(state, index, 1, value) as T) : state
+      ),
+    move: (from, to) =>
+      store.set((state) =>
+        state && from in state
+          ? (spliced(spliced(state, from, 1), to, 0, state[from]) as T)
+          : state
+      ),
+    splice: (start, deleteCount = Infinity, ...values) =>
+      store.set((state) => spliced(state, start, deleteCount, ...values) as T),
+    clear: () => store.set([] as unknown as T),
+    upsertBy: (key, value) =>
+      store.set((state) => {
+        const index =
+          state?.findIndex((item) => item[key] === value[key]) ?? -1;
+
+        return (
+          index < 0
+            ? [...(state ?? []), value]
+            : spliced(state, index, 1, value)
+        ) as T;
+      }),
+    removeBy: (key, id) =>
+      store.set(
+        (state) => (state?.filter((item) => item[key] !== id) ?? null) as T
+      ),
   });
 
 export default arrayAPI;
@@ -0,0 +1,57 @@
+import { it, describe, expect } from "bun:test";
+import createStore from "./store";
+import asyncAPI, { createAsyncState } from "./plugin-async";
+import extend from "./extend";
+
+const createUserStore = () =>
+  extend(createStore({ users: createAsyncState<string[]>() })).with(asyncAPI());
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("async API", () => {
+  it("tracks the status and data", async () => {
+    const store = createUserStore();
+    const load = store.action("users", async (_, page: number) => [
+      `user ${page}`,
+    ]);
+
+    const loading = load(1);
+
+    expect(store.get().users.status).toEqual("pending");
+    expect(await loading).toEqual(["user 1"]);
+    expect(store.get().users).toEqual({
+      status: "success",
+      data: ["user 1"],
+      error: undefined,
+    });
+  });
+
+  it("tracks errors", async () => {
+    const store = createUserStore();
+    const error = new Error("Not found");
+    const load = store.action("users", () => Promise.reject(error));
+
+    expect(await load()).toBeUndefined();
+    expect(store.get().users.status).toEqual("error");
+    expect(store.get().users.error).toBe(error);
+  });
+
+  it("aborts and ignores stale calls", async () => {
+    const store = createUserStore();
+    const signals: AbortSignal[] = [];
+    const load = store.action("users", async (signal, ms: number) => {
+      signals.push(signal);
+      await delay(ms);
+
+      return [`after ${ms}`];
+    });
+
+    const first = load(10);
+    const second = load(1);
+
+    expect(await second).toEqual(["after 1"]);
+    expect(await first).toBeUndefined();
+    expect(signals[0].aborted).toBe(true);
+    expect(store.get().users.data).toEqual(["after 1"]);
+  });
+});
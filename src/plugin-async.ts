@@ -0,0 +1,136 @@
+import { StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/** The status of an asynchronous action. */
+export type AsyncStatus = "idle" | "pending" | "success" | "error";
+
+/** The state of an asynchronous action. */
+export type AsyncState<D> = {
+  status: AsyncStatus;
+  /** The data from the last successful call, if any. */
+  data: D | undefined;
+  /** The error from the last failed call, if any. */
+  error: unknown;
+};
+
+/** The keys of the state that hold an `AsyncState`. */
+export type AsyncKey<T> = {
+  [K in keyof T]: T[K] extends AsyncState<any> ? K : never;
+}[keyof T];
+
+/** The type of the data in an `AsyncState`. */
+export type AsyncData<S> = S extends AsyncState<infer D> ? D : never;
+
+/**
+ * Calls the asynchronous function and tracks its state in the store.
+ * Resolves to the data, or `undefined` if the call failed or was superseded.
+ */
+export type AsyncAction<A extends any[], D> = (
+  ...args: A
+) => Promise<D | undefined>;
+
+export type AsyncAPI<T> = {
+  /**
+   * Creates an action that tracks the status, error and data
+   * of an asynchronous function in the state at the given key.
+   *
+   * Starting a new call aborts the signal of the call in flight,
+   * and the result of the aborted call is ignored.
+   * @param name The key of the `AsyncState` in the state.
+   * @param fn The asynchronous function,
+   * which receives an `AbortSignal` followed by the arguments of the action.
+   * @example
+   * ```ts
+   * const loadUsers = useUsers.action("users", (signal, page: number) =>
+   *   fetch(`/users?page=${page}`, { signal }).then((res) => res.json())
+   * );
+   *
+   * loadUsers(1);
+   * ```
+   */
+  action: <K extends AsyncKey<T>, A extends any[]>(
+    name: K,
+    fn: (signal: AbortSignal, ...args: A) => Promise<AsyncData<T[K]>>
+  ) => AsyncAction<A, AsyncData<T[K]>>;
+};
+
+export type AsyncAPIPlugin<T extends Record<string, any>> = Plugin<
+  StoreAPI<T>,
+  AsyncAPI<T>
+>;
+
+/**
+ * Creates the initial state of an asynchronous action.
+ * @param data (Optional) The initial data.
+ * @template D The type of the data.
+ */
+export const createAsyncState = <D>(data?: D): AsyncState<D> => ({
+  status: "idle",
+  data,
+  error: undefined,
+});
+
+/**
+ * A plugin that adds asynchronous actions to the store,
+ * which track their status, error and data in the state.
+ * @template T The type of the state, must be an object type.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import asyncAPI, { createAsyncState } from "tyin/plugin-async";
+ *
+ * const useUsers = extend(storeHook({ users: createAsyncState<User[]>() }))
+ *   .with(asyncAPI())
+ *   .seal();
+ *
+ * const status = useUsers((state) => state.users.status);
+ * ```
+ */
+const asyncAPI =
+  <T extends Record<string, any>>(): AsyncAPIPlugin<T> =>
+  (store) => {
+    const controllers = new Map<PropertyKey, AbortController>();
+
+    store.onDestroy(() => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    });
+
+    const patch = (name: PropertyKey, update: Partial<AsyncState<any>>) =>
+      store.set(
+        (state) =>
+          ({ ...state, [name]: { ...state[name as string], ...update } } as T)
+      );
+
+    return {
+      action:
+        (name, fn) =>
+        async (...args) => {
+          const controller = new AbortController();
+
+          controllers.get(name)?.abort();
+          controllers.set(name, controller);
+          patch(name, { status: "pending", error: undefined });
+
+          try {
+            const data = await fn(controller.signal, ...args);
+            if (controller.signal.aborted) return undefined;
+
+            patch(name, { status: "success", data });
+
+            return data;
+          } catch (error) {
+            if (!controller.signal.aborted) {
+              patch(name, { status: "error", error });
+            }
+
+            return undefined;
+          } finally {
+            if (controllers.get(name) === controller) controllers.delete(name);
+          }
+        },
+    };
+  };
+
+export default asyncAPI;
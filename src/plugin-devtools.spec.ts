@@ -0,0 +1,89 @@
+import { it, describe, expect, jest, afterEach } from "bun:test";
+import createStore from "./store";
+import devtools, { DevtoolsMessage } from "./plugin-devtools";
+import objectAPI from "./plugin-object";
+import extend from "./extend";
+
+const stubExtension = () => {
+  let listener: (message: DevtoolsMessage) => void = () => {};
+  const connection = {
+    init: jest.fn(),
+    send: jest.fn(),
+    subscribe: jest.fn((callback) => (listener = callback)),
+  };
+
+  (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__ = {
+    connect: () => connection,
+  };
+
+  return {
+    connection,
+    dispatch: (message: DevtoolsMessage) => listener(message),
+  };
+};
+
+describe("devtools plugin", () => {
+  afterEach(() => {
+    delete (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it("does nothing without the extension", () => {
+    const store = extend(createStore({ a: 1 }))
+      .with(objectAPI())
+      .with(devtools());
+
+    store.patch({ a: 2 });
+
+    expect(store.get()).toEqual({ a: 2 });
+  });
+
+  it("sends the initial state", () => {
+    const { connection } = stubExtension();
+
+    extend(createStore({ a: 1 })).with(devtools());
+
+    expect(connection.init).toHaveBeenCalledWith({ a: 1 });
+  });
+
+  it("names actions after the plugin methods", () => {
+    const { connection } = stubExtension();
+    const store = extend(createStore({ a: 1 }))
+      .with(objectAPI())
+      .with(devtools());
+
+    store.patch({ a: 2 });
+    store.set({ a: 3 });
+
+    expect(connection.send).toHaveBeenCalledWith({ type: "patch" }, { a: 2 });
+    expect(connection.send).toHaveBeenCalledWith({ type: "set" }, { a: 3 });
+  });
+
+  it("names actions explicitly", () => {
+    const { connection } = stubExtension();
+    const store = extend(createStore({ a: 1 }))
+      .with(objectAPI())
+      .with(devtools());
+
+    store.label("increment", () => store.patch(({ a }) => ({ a: a + 1 })));
+
+    expect(connection.send).toHaveBeenCalledWith(
+      { type: "increment" },
+      { a: 2 }
+    );
+  });
+
+  it("jumps to states", () => {
+    const { connection, dispatch } = stubExtension();
+    const store = extend(createStore({ a: 1 })).with(devtools());
+
+    store.set({ a: 2 });
+    dispatch({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify({ a: 1 }),
+    });
+
+    expect(store.get()).toEqual({ a: 1 });
+    expect(connection.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { AnyState, StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/** A message sent from the Redux DevTools extension. */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: { type: string };
+  state?: string;
+};
+
+/** A connection to the Redux DevTools extension. */
+export type DevtoolsConnection = {
+  init: (state: unknown) => void;
+  send: (action: { type: string }, state: unknown) => void;
+  subscribe: (listener: (message: DevtoolsMessage) => void) => unknown;
+};
+
+/** The global `__REDUX_DEVTOOLS_EXTENSION__` object. */
+export type DevtoolsExtension = {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+};
+
+/** Options for the devtools plugin. */
+export type DevtoolsOptions = {
+  /** The name of the store (or instance) in the DevTools. */
+  name?: string;
+};
+
+export type DevtoolsAPI = {
+  /**
+   * Reports all updates made within the callback with the given action name.
+   * Updates made by plugin methods are otherwise reported
+   * with the name of the method, such as `patch` or `push`.
+   * @param action The name of the action.
+   * @param fn A function that updates the state.
+   * @example
+   * ```ts
+   * useTodos.label("completeAll", () =>
+   *   useTodos.map((todo) => ({ ...todo, completed: true }))
+   * );
+   * ```
+   */
+  label: <R>(action: string, fn: () => R) => R;
+};
+
+export type DevtoolsPlugin<T extends AnyState> = Plugin<
+  StoreAPI<T>,
+  DevtoolsAPI
+>;
+
+const unwrapped = [
+  "get",
+  "subscribe",
+  "intercept",
+  "destroy",
+  "onDestroy",
+  "with",
+  "seal",
+];
+
+/**
+ * A plugin that connects the store to the Redux DevTools extension:
+ * updates are reported as actions, and the DevTools can travel back in time.
+ *
+ * Add it last, so that the methods of other plugins
+ * are reported as actions with their names.
+ * The plugin does nothing if the extension is not installed.
+ * @param options (Optional) Configure the plugin.
+ * @template T The type of the state.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import objectAPI from "tyin/plugin-object";
+ * import devtools from "tyin/plugin-devtools";
+ *
+ * const useExample = extend(storeHook({ a: 1, b: 2 }))
+ *   .with(objectAPI())
+ *   .with(devtools({ name: "Example" }))
+ *   .seal();
+ * ```
+ */
+const devtools =
+  <T extends AnyState>(options?: DevtoolsOptions): DevtoolsPlugin<T> =>
+  (store) => {
+    const extension: DevtoolsExtension | undefined = (globalThis as any)
+      .__REDUX_DEVTOOLS_EXTENSION__;
+    let action: string | undefined;
+    let isTraveling = false;
+
+    const label = <R>(name: string, fn: () => R) => {
+      if (action) return fn();
+
+      action = name;
+
+      try {
+        return fn();
+      } finally {
+        action = undefined;
+      }
+    };
+
+    if (!extension) return { label };
+
+    const set = store.set;
+    const connection = extension.connect({ name: options?.name });
+    const travel = (state: string) => {
+      isTraveling = true;
+
+      try {
+        set(JSON.parse(state), () => false);
+      } finally {
+        isTraveling = false;
+      }
+    };
+
+    connection.init(store.get());
+    const disconnect = connection.subscribe((message) => {
+      if (message.type !== "DISPATCH" || !message.payload) return;
+
+      switch (message.payload.type) {
+        case "JUMP_TO_STATE":
+        case "JUMP_TO_ACTION":
+          if (message.state) travel(message.state);
+          break;
+        case "ROLLBACK":
+          if (message.state) travel(message.state);
+          connection.init(store.get());
+          break;
+        case "COMMIT":
+          connection.init(store.get());
+          break;
+      }
+    });
+    const unsubscribe = store.subscribe((_, newState) => {
+      if (!isTraveling) connection.send({ type: action ?? "set" }, newState);
+    });
+
+    store.onDestroy(() => {
+      unsubscribe();
+      if (typeof disconnect === "function") disconnect();
+    });
+
+    const methods: Record<string, any> = {};
+
+    for (const [key, method] of Object.entries(store as Record<string, any>)) {
+      if (typeof method === "function" && !unwrapped.includes(key)) {
+        methods[key] = (...args: any[]) => label(key, () => method(...args));
+      }
+    }
+
+    return { ...methods, label };
+  };
+
+export default devtools;
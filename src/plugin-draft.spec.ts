@@ -0,0 +1,135 @@
+import { it, describe, expect } from "bun:test";
+import createStore from "./store";
+import draftAPI, { produce } from "./plugin-draft";
+import extend from "./extend";
+import { types } from "util";
+
+describe("draft API", () => {
+  const createTodoStore = () =>
+    extend(
+      createStore({
+        user: { name: "mausworks" },
+        items: [
+          { task: "Walk the dog", done: false },
+          { task: "Water the plants", done: false },
+        ],
+      })
+    ).with(draftAPI());
+
+  it("applies mutations to the state", () => {
+    const store = createTodoStore();
+
+    store.mutate((draft) => {
+      draft.items[1].done = true;
+      draft.items.push({ task: "Do the dishes", done: false });
+    });
+
+    expect(store.get().items).toEqual([
+      { task: "Walk the dog", done: false },
+      { task: "Water the plants", done: true },
+      { task: "Do the dishes", done: false },
+    ]);
+  });
+
+  it("only copies the changed paths", () => {
+    const store = createTodoStore();
+    const state = store.get();
+
+    store.mutate((draft) => {
+      draft.items[1].done = true;
+    });
+
+    const next = store.get();
+
+    expect(next).not.toBe(state);
+    expect(next.items).not.toBe(state.items);
+    expect(next.items[0]).toBe(state.items[0]);
+    expect(next.user).toBe(state.user);
+    expect(state.items[1].done).toBe(false);
+  });
+
+  it("keeps the state when nothing changes", () => {
+    const store = createTodoStore();
+    const state = store.get();
+
+    store.mutate((draft) => {
+      draft.user.name = "mausworks";
+      draft.items.map((item) => item.task);
+    });
+
+    expect(store.get()).toBe(state);
+  });
+
+  it("deletes keys and assigns drafts", () => {
+    const base: Record<string, { a: number }> = { x: { a: 1 }, y: { a: 2 } };
+    const next = produce(base, (draft) => {
+      draft.z = draft.x;
+      draft.z.a = 3;
+      delete draft.y;
+    });
+
+    expect(next).toEqual({ x: { a: 3 }, z: { a: 3 } });
+    expect(base).toEqual({ x: { a: 1 }, y: { a: 2 } });
+  });
+
+  it("supports array methods", () => {
+    const next = produce([3, 1, 2], (draft) => {
+      draft.sort();
+      draft.splice(1, 1);
+    });
+
+    expect(next).toEqual([1, 3]);
+    expect(Array.isArray(next)).toBe(true);
+  });
+
+  it("finalizes drafts within reassigned arrays and objects", () => {
+    type Todo = { task: string; done: boolean };
+    const base: { items: Todo[]; first?: { item: Todo } } = {
+      items: [
+        { task: "Walk the dog", done: true },
+        { task: "Water the plants", done: false },
+      ],
+    };
+
+    const next = produce(base, (draft) => {
+      draft.items = draft.items.filter((item) => !item.done);
+      draft.items[0].done = true;
+      draft.first = { item: draft.items[0] };
+    });
+
+    expect(types.isProxy(next.items[0])).toBe(false);
+    expect(types.isProxy(next.first?.item)).toBe(false);
+    expect(next.items).toEqual([{ task: "Water the plants", done: true }]);
+    expect(base.items[1].done).toBe(false);
+  });
+
+  it("drafts frozen states", () => {
+    type State = { user: { name: string }; tags: string[] };
+    const base = Object.freeze({
+      user: Object.freeze({ name: "mausworks" }),
+      tags: Object.freeze(["a"]),
+    }) as State;
+
+    const next = produce(base, (draft) => {
+      expect(Object.keys(draft.user)).toEqual(["name"]);
+      expect({ ...draft.user }).toEqual({ name: "mausworks" });
+      expect([...draft.tags]).toEqual(["a"]);
+
+      draft.user = { ...draft.user, name: "tyin" };
+      draft.tags.push("b");
+    });
+
+    expect(next).toEqual({ user: { name: "tyin" }, tags: ["a", "b"] });
+    expect(base.user.name).toEqual("mausworks");
+  });
+
+  it("revokes the drafts once the recipe returns", () => {
+    let leaked: any;
+
+    produce({ a: { b: 1 } }, (draft) => {
+      leaked = draft.a;
+    });
+
+    expect(() => leaked.b).toThrow();
+  });
+});
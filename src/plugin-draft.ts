@@ -0,0 +1,237 @@
+import { AnyState, StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/** A function that mutates a draft of the state. */
+export type Recipe<T> = (draft: T) => void;
+
+export type DraftAPI<T> = {
+  /**
+   * Updates the state by mutating a draft of it.
+   * Only the objects (and arrays) along the changed paths are copied,
+   * everything else keeps its reference.
+   * @param recipe A function that mutates the draft.
+   * @example
+   * ```ts
+   * useTodos.mutate((draft) => {
+   *   draft.items[2].done = true;
+   * });
+   * ```
+   */
+  mutate: (recipe: Recipe<T>) => void;
+};
+
+export type DraftAPIPlugin<T extends AnyState> = Plugin<
+  StoreAPI<T>,
+  DraftAPI<T>
+>;
+
+type DraftState = {
+  base: any;
+  copy: any;
+  parent: DraftState | null;
+  children: Map<PropertyKey, DraftState>;
+  proxy: any;
+  revoke: () => void;
+  isFinalized: boolean;
+};
+
+const DRAFT = Symbol("draft");
+
+const isDraftable = (value: any) => {
+  if (Array.isArray(value)) return true;
+  if (typeof value !== "object" || value === null) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+};
+
+const hasOwn = (target: object, key: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+const latest = (state: DraftState) => state.copy ?? state.base;
+
+const markChanged = (state: DraftState) => {
+  if (state.copy) return;
+
+  state.copy = Array.isArray(state.base) ? [...state.base] : { ...state.base };
+
+  if (state.parent) markChanged(state.parent);
+};
+
+const createDraft = (
+  base: any,
+  parent: DraftState | null,
+  drafts: DraftState[]
+): DraftState => {
+  const state: DraftState = {
+    base,
+    copy: null,
+    parent,
+    children: new Map(),
+    proxy: null,
+    revoke: () => {},
+    isFinalized: false,
+  };
+
+  drafts.push(state);
+
+  const { proxy, revoke } = Proxy.revocable(Array.isArray(base) ? [] : {}, {
+    get: (_, key) => {
+      if (key === DRAFT) return state;
+
+      const source = latest(state);
+      const value = source[key];
+
+      if (!hasOwn(source, key) || !isDraftable(value) || value[DRAFT]) {
+        return value;
+      }
+
+      let child = state.children.get(key);
+
+      if (!child || child.base !== value) {
+        child = createDraft(value, state, drafts);
+        state.children.set(key, child);
+      }
+
+      return child.proxy;
+    },
+    set: (_, key, value) => {
+      const source = latest(state);
+
+      if (hasOwn(source, key) && Object.is(source[key], value)) {
+        return true;
+      }
+
+      markChanged(state);
+      state.copy[key] = value;
+
+      return true;
+    },
+    deleteProperty: (_, key) => {
+      if (hasOwn(latest(state), key)) {
+        markChanged(state);
+        delete state.copy[key];
+      }
+
+      return true;
+    },
+    has: (_, key) => key in latest(state),
+    ownKeys: () => Reflect.ownKeys(latest(state)),
+    getOwnPropertyDescriptor: (_, key) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(latest(state), key);
+
+      // The target of the proxy is empty, so it can only report
+      // properties that are configurable, except for the length of arrays:
+      return (
+        descriptor && {
+          ...descriptor,
+          writable: true,
+          configurable: !Array.isArray(base) || key !== "length",
+        }
+      );
+    },
+    getPrototypeOf: () => Object.getPrototypeOf(base),
+  });
+
+  state.proxy = proxy;
+  state.revoke = revoke;
+
+  return state;
+};
+
+/**
+ * Replaces the drafts within a value with their final values,
+ * including drafts within objects and arrays that were assigned to the draft.
+ */
+const finalizeValue = (value: any, seen: Set<any>): any => {
+  if (!isDraftable(value)) return value;
+  if (value[DRAFT]) return finalize(value[DRAFT], seen);
+  if (seen.has(value)) return value;
+
+  seen.add(value);
+
+  for (const key of Object.keys(value)) {
+    const next = finalizeValue(value[key], seen);
+
+    if (next !== value[key]) value[key] = next;
+  }
+
+  return value;
+};
+
+const finalize = (state: DraftState, seen: Set<any>): any => {
+  const { base, copy } = state;
+
+  if (!copy || state.isFinalized) return copy ?? base;
+
+  state.isFinalized = true;
+  seen.add(copy);
+
+  state.children.forEach((child, key) => {
+    if (copy[key] === child.base) copy[key] = finalize(child, seen);
+  });
+
+  for (const key of Object.keys(copy)) {
+    // Values that are unchanged from the base can not contain drafts:
+    if (copy[key] !== base[key]) copy[key] = finalizeValue(copy[key], seen);
+  }
+
+  return copy;
+};
+
+/**
+ * Produces the next state by mutating a draft of the base state.
+ * Only the objects (and arrays) along the changed paths are copied,
+ * everything else keeps its reference.
+ *
+ * Only plain objects and arrays are drafted:
+ * assign new instances of other values (like `Map` or `Date`) instead.
+ * @param base The state to draft.
+ * @param recipe A function that mutates the draft.
+ * @example
+ * ```ts
+ * import { produce } from "tyin/plugin-draft";
+ *
+ * const next = produce(state, (draft) => {
+ *   draft.user.name = "mausworks";
+ * });
+ * ```
+ */
+export const produce = <T>(base: T, recipe: Recipe<T>): T => {
+  if (!isDraftable(base)) return base;
+
+  const drafts: DraftState[] = [];
+  const state = createDraft(base, null, drafts);
+
+  try {
+    recipe(state.proxy);
+
+    return finalize(state, new Set());
+  } finally {
+    drafts.forEach((draft) => draft.revoke());
+  }
+};
+
+/**
+ * A plugin that adds a `mutate` method to the store,
+ * which updates the state by mutating a draft of it.
+ * @template T The type of the state.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import draftAPI from "tyin/plugin-draft";
+ *
+ * const useExample = extend(storeHook({ items: [{ done: false }] }))
+ *   .with(draftAPI())
+ *   .seal();
+ * ```
+ */
+const draftAPI =
+  <T extends AnyState>(): DraftAPIPlugin<T> =>
+  (store) => ({
+    mutate: (recipe) => store.set((state) => produce(state, recipe)),
+  });
+
+export default draftAPI;
@@ -0,0 +1,106 @@
+import { it, describe, expect } from "bun:test";
+import createStore from "./store";
+import entitiesAPI, { createEntityState } from "./plugin-entities";
+import extend from "./extend";
+
+type Todo = { id: number; task: string; done?: boolean };
+
+const createTodoStore = () =>
+  extend(createStore(createEntityState<Todo>())).with(entitiesAPI());
+
+describe("entities API", () => {
+  it("adds entities", () => {
+    const store = createTodoStore();
+
+    store.addOne({ id: 1, task: "Walk the dog" });
+    store.addMany([
+      { id: 1, task: "Ignored" },
+      { id: 2, task: "Water the plants" },
+    ]);
+
+    expect(store.get()).toEqual({
+      ids: [1, 2],
+      entities: {
+        1: { id: 1, task: "Walk the dog" },
+        2: { id: 2, task: "Water the plants" },
+      },
+    });
+  });
+
+  it("upserts and updates entities", () => {
+    const store = createTodoStore();
+
+    store.upsertOne({ id: 1, task: "Walk the dog" });
+    store.upsertOne({ id: 1, task: "Walk the cat" });
+    store.updateOne(1, { done: true });
+    store.updateOne(2, { done: true });
+
+    expect(store.selectAll(store.get())).toEqual([
+      { id: 1, task: "Walk the cat", done: true },
+    ]);
+  });
+
+  it("removes and replaces entities", () => {
+    const store = createTodoStore();
+
+    store.setAll([
+      { id: 1, task: "Walk the dog" },
+      { id: 2, task: "Water the plants" },
+    ]);
+    store.removeOne(1);
+
+    expect(store.get()).toEqual({
+      ids: [2],
+      entities: { 2: { id: 2, task: "Water the plants" } },
+    });
+  });
+
+  it("removes entities by their key", () => {
+    const store = createTodoStore();
+
+    store.setAll([
+      { id: 1, task: "Walk the dog" },
+      { id: 2, task: "Water the plants" },
+    ]);
+    store.removeOne("1");
+
+    expect(store.selectAll(store.get())).toEqual([
+      { id: 2, task: "Water the plants" },
+    ]);
+  });
+
+  it("selects entities with stable references", () => {
+    const store = createTodoStore();
+
+    store.setAll([
+      { id: 1, task: "Walk the dog" },
+      { id: 2, task: "Water the plants" },
+    ]);
+
+    const all = store.selectAll(store.get());
+    const first = store.selectById(1)(store.get());
+
+    expect(store.selectAll(store.get())).toBe(all);
+
+    store.updateOne(2, { done: true });
+
+    expect(store.selectAll(store.get())).not.toBe(all);
+    expect(store.selectById(1)(store.get())).toBe(first);
+  });
+
+  it("sorts entities", () => {
+    const store = extend(createStore(createEntityState<Todo>())).with(
+      entitiesAPI({
+        selectId: (todo) => todo.task,
+        sortComparer: (left, right) => left.task.localeCompare(right.task),
+      })
+    );
+
+    store.addMany([
+      { id: 1, task: "b" },
+      { id: 2, task: "a" },
+    ]);
+
+    expect(store.get().ids).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,182 @@
+import { StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/** The type of the key that identifies an entity. */
+export type EntityId = string | number;
+
+/** A normalized collection of entities. */
+export type EntityState<T> = {
+  /** The IDs of the entities, in order. */
+  ids: EntityId[];
+  /** The entities, by their ID. */
+  entities: Record<EntityId, T>;
+};
+
+/** Options for the entities plugin. */
+export type EntityOptions<T> = {
+  /**
+   * Returns the ID of an entity.
+   *
+   * The default returns the `id` property of the entity.
+   */
+  selectId?: (entity: T) => EntityId;
+  /** Keeps the IDs sorted by comparing their entities. */
+  sortComparer?: (left: T, right: T) => number;
+};
+
+/** Convenience methods for working with normalized entities. */
+export type EntityAPI<T> = {
+  /** Adds the entity, unless there already is one with the same ID. */
+  addOne: (entity: T) => void;
+  /** Adds the entities, except the ones whose IDs already exist. */
+  addMany: (entities: T[]) => void;
+  /**
+   * Adds the entity, or merges it into the existing entity with the same ID.
+   */
+  upsertOne: (entity: T) => void;
+  /**
+   * Applies a partial update to the entity with the given ID, if it exists.
+   * @example
+   * ```ts
+   * useTodos.updateOne(2, { done: true });
+   * ```
+   */
+  updateOne: (id: EntityId, changes: Partial<T>) => void;
+  /** Removes the entity with the given ID. */
+  removeOne: (id: EntityId) => void;
+  /** Replaces all entities. */
+  setAll: (entities: T[]) => void;
+  /**
+   * Creates a selector that returns the entity with the given ID.
+   * @example
+   * ```ts
+   * const todo = useTodos(useTodos.selectById(2));
+   * ```
+   */
+  selectById: (id: EntityId) => (state: EntityState<T>) => T | undefined;
+  /**
+   * Returns all entities in order.
+   * The returned array keeps its reference until an entity changes.
+   * @example
+   * ```ts
+   * const todos = useTodos(useTodos.selectAll);
+   * ```
+   */
+  selectAll: (state: EntityState<T>) => T[];
+};
+
+export type EntityAPIPlugin<T extends object> = Plugin<
+  StoreAPI<EntityState<T>>,
+  EntityAPI<T>
+>;
+
+/**
+ * Creates an empty collection of entities,
+ * to use as the initial state of the store.
+ * @template T The type of the entities.
+ */
+export const createEntityState = <T>(): EntityState<T> => ({
+  ids: [],
+  entities: {},
+});
+
+/**
+ * A plugin that adds methods for working with a normalized collection
+ * of entities, where each entity can be looked up by its ID.
+ * @param options (Optional) Configure the plugin.
+ * @template T The type of the entities.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import entitiesAPI, { createEntityState } from "tyin/plugin-entities";
+ *
+ * const useTodos = extend(storeHook(createEntityState<Todo>()))
+ *   .with(entitiesAPI())
+ *   .seal();
+ * ```
+ */
+const entitiesAPI =
+  <T extends object>(options?: EntityOptions<T>): EntityAPIPlugin<T> =>
+  (store) => {
+    const selectId = options?.selectId ?? ((entity: any) => entity.id);
+    const sortComparer = options?.sortComparer;
+    let cache: (EntityState<T> & { all: T[] }) | undefined;
+
+    const setEntities = (entities: Record<EntityId, T>, ids: EntityId[]) =>
+      store.set({
+        ids: sortComparer
+          ? ids
+              .map((id) => entities[id])
+              .sort(sortComparer)
+              .map(selectId)
+          : ids,
+        entities,
+      });
+
+    const putMany = (
+      items: T[],
+      resolve: (existing: T | undefined, item: T) => T
+    ) => {
+      const { ids, entities } = store.get();
+      const nextIds = [...ids];
+      const nextEntities = { ...entities };
+
+      for (const item of items) {
+        const id = selectId(item);
+
+        if (!(id in nextEntities)) nextIds.push(id);
+
+        nextEntities[id] = resolve(nextEntities[id], item);
+      }
+
+      setEntities(nextEntities, nextIds);
+    };
+
+    return {
+      addOne: (entity) =>
+        putMany([entity], (existing, item) => existing ?? item),
+      addMany: (entities) =>
+        putMany(entities, (existing, item) => existing ?? item),
+      upsertOne: (entity) =>
+        putMany([entity], (existing, item) => ({ ...existing, ...item })),
+      updateOne: (id, changes) => {
+        const { ids, entities } = store.get();
+        if (!(id in entities)) return;
+
+        setEntities(
+          { ...entities, [id]: { ...entities[id], ...changes } },
+          ids
+        );
+      },
+      removeOne: (id) => {
+        const { ids, entities } = store.get();
+        if (!(id in entities)) return;
+
+        const { [id]: _, ...remainder } = entities;
+
+        setEntities(
+          remainder,
+          // Entity keys are strings, so `1` and `"1"` refer to the same entity:
+          ids.filter((other) => String(other) !== String(id))
+        );
+      },
+      setAll: (entities) =>
+        setEntities(
+          Object.fromEntries(
+            entities.map((entity) => [selectId(entity), entity])
+          ),
+          entities.map(selectId)
+        ),
+      selectById: (id) => (state) => state.entities[id],
+      selectAll: ({ ids, entities }) => {
+        if (cache?.ids !== ids || cache.entities !== entities) {
+          cache = { ids, entities, all: ids.map((id) => entities[id]) };
+        }
+
+        return cache.all;
+      },
+    };
+  };
+
+export default entitiesAPI;
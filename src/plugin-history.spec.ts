@@ -0,0 +1,107 @@
+import { it, describe, expect, jest } from "bun:test";
+import createStore from "./store";
+import history from "./plugin-history";
+import objectAPI from "./plugin-object";
+import extend from "./extend";
+
+describe("history plugin", () => {
+  it("undoes and redoes updates", () => {
+    const store = extend(createStore<number>(1)).with(history());
+
+    store.set(2);
+    store.set(3);
+    store.undo();
+
+    expect(store.get()).toEqual(2);
+
+    store.undo();
+
+    expect(store.get()).toEqual(1);
+    expect(store.canUndo()).toBe(false);
+
+    store.redo();
+
+    expect(store.get()).toEqual(2);
+    expect(store.canRedo()).toBe(true);
+  });
+
+  it("forgets the next states on update", () => {
+    const store = extend(createStore<number>(1)).with(history());
+
+    store.set(2);
+    store.undo();
+    store.set(3);
+
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it("limits the number of states", () => {
+    const store = extend(createStore<number>(1)).with(history({ limit: 2 }));
+
+    store.set(2);
+    store.set(3);
+    store.set(4);
+    store.undo();
+    store.undo();
+    store.undo();
+
+    expect(store.get()).toEqual(2);
+  });
+
+  it("clears the history", () => {
+    const store = extend(createStore<number>(1)).with(history());
+
+    store.set(2);
+    store.undo();
+    store.clearHistory();
+
+    expect(store.canUndo()).toBe(false);
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it("groups updates in a transaction", () => {
+    const store = extend(createStore({ a: 1, b: 1 }))
+      .with(objectAPI())
+      .with(history());
+
+    store.transaction(() => {
+      store.patch({ a: 2 });
+      store.transaction(() => store.patch({ b: 2 }));
+    });
+
+    expect(store.get()).toEqual({ a: 2, b: 2 });
+
+    store.undo();
+
+    expect(store.get()).toEqual({ a: 1, b: 1 });
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it("notifies once and rolls back a transaction that throws", () => {
+    const store = extend(createStore({ a: 1, b: 1 }))
+      .with(objectAPI())
+      .with(history());
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+    store.transaction(() => {
+      store.patch({ a: 2 });
+      store.patch({ b: 2 });
+    });
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(() =>
+      store.transaction(() => {
+        store.patch({ a: 9 });
+        throw new Error("Oops");
+      })
+    ).toThrow("Oops");
+    expect(store.get()).toEqual({ a: 2, b: 2 });
+    expect(subscriber).toHaveBeenCalledTimes(1);
+
+    store.undo();
+
+    expect(store.get()).toEqual({ a: 1, b: 1 });
+    expect(store.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { AnyState, StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/** Options for the history plugin. */
+export type HistoryOptions = {
+  /**
+   * The maximum number of states to keep in the history.
+   *
+   * @default Infinity
+   */
+  limit?: number;
+};
+
+/** Methods for traversing the history of the store. */
+export type HistoryAPI = {
+  /** Restores the previous state, if any. */
+  undo: () => void;
+  /** Restores the next state after an `undo`, if any. */
+  redo: () => void;
+  /** Returns `true` if there is a state to restore with `undo`. */
+  canUndo: () => boolean;
+  /** Returns `true` if there is a state to restore with `redo`. */
+  canRedo: () => boolean;
+  /** Forgets all previous and next states. */
+  clearHistory: () => void;
+  /**
+   * Groups all updates made within the callback into a single history entry,
+   * so that they can be undone (and redone) in one step.
+   *
+   * The updates are applied as a batch: subscribers are notified once,
+   * and if the callback throws, the updates are rolled back and not recorded.
+   * @param fn A function that updates the state one or more times.
+   * @example
+   * ```ts
+   * useExample.transaction(() => {
+   *   useExample.patch({ a: 2 });
+   *   useExample.patch({ b: 3 });
+   * });
+   *
+   * useExample.undo(); // Reverts both patches.
+   * ```
+   */
+  transaction: (fn: () => void) => void;
+};
+
+export type HistoryPlugin<T extends AnyState> = Plugin<StoreAPI<T>, HistoryAPI>;
+
+/**
+ * A plugin that records the previous states of the store,
+ * and adds methods to undo and redo updates.
+ * @param options (Optional) Configure the plugin.
+ * @template T The type of the state.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import objectAPI from "tyin/plugin-object";
+ * import history from "tyin/plugin-history";
+ *
+ * const useExample = extend(storeHook({ a: 1, b: 2 }))
+ *   .with(objectAPI())
+ *   .with(history({ limit: 100 }))
+ *   .seal();
+ * ```
+ */
+const history =
+  <T extends AnyState>(options?: HistoryOptions): HistoryPlugin<T> =>
+  (store) => {
+    const limit = options?.limit ?? Infinity;
+    let past: T[] = [];
+    let future: T[] = [];
+    let traveling = false;
+
+    const append = (states: T[], state: T) =>
+      [...states, state].slice(Math.max(0, states.length + 1 - limit));
+
+    const restore = (state: T) => {
+      traveling = true;
+
+      try {
+        store.set(state, () => false);
+      } finally {
+        traveling = false;
+      }
+    };
+
+    const unsubscribe = store.subscribe((oldState) => {
+      if (traveling) return;
+
+      past = append(past, oldState);
+      future = [];
+    });
+
+    store.onDestroy(unsubscribe);
+
+    return {
+      undo: () => {
+        if (!past.length) return;
+
+        const state = past[past.length - 1];
+
+        past = past.slice(0, -1);
+        future = append(future, store.get());
+        restore(state);
+      },
+      redo: () => {
+        if (!future.length) return;
+
+        const state = future[future.length - 1];
+
+        future = future.slice(0, -1);
+        past = append(past, store.get());
+        restore(state);
+      },
+      canUndo: () => past.length > 0,
+      canRedo: () => future.length > 0,
+      clearHistory: () => {
+        past = [];
+        future = [];
+      },
+      // A batch notifies the subscriber once, which records a single entry:
+      transaction: (fn) => store.batch(fn),
+    };
+  };
+
+export default history;
@@ -0,0 +1,48 @@
+import { it, describe, expect } from "bun:test";
+import createStore from "./store";
+import mapAPI from "./plugin-map";
+import extend from "./extend";
+
+describe("map API", () => {
+  it("sets and gets entries", () => {
+    const store = extend(createStore(new Map<string, number>())).with(mapAPI());
+    const state = store.get();
+
+    store.setKey("a", 1);
+
+    expect(store.get()).not.toBe(state);
+    expect(state.size).toEqual(0);
+    expect(store.getKey("a")).toEqual(1);
+    expect(store.has("a")).toBe(true);
+    expect(store.size()).toEqual(1);
+  });
+
+  it("ignores unchanged entries", () => {
+    const store = extend(createStore(new Map([["a", 1]]))).with(mapAPI());
+    const state = store.get();
+
+    store.setKey("a", 1);
+    store.delete("b");
+
+    expect(store.get()).toBe(state);
+  });
+
+  it("deletes entries", () => {
+    const store = extend(
+      createStore(
+        new Map([
+          ["a", 1],
+          ["b", 2],
+        ])
+      )
+    ).with(mapAPI());
+
+    store.delete("a");
+
+    expect([...store.get()]).toEqual([["b", 2]]);
+
+    store.clear();
+
+    expect(store.size()).toEqual(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/** The type of the keys in a map. */
+export type MapKey<T> = T extends ReadonlyMap<infer K, any> ? K : never;
+/** The type of the values in a map. */
+export type MapValue<T> = T extends ReadonlyMap<any, infer V> ? V : never;
+
+/**
+ * Convenience methods for working with maps.
+ * Updates replace the state with a new map, instead of mutating it.
+ */
+export type MapAPI<K, V> = {
+  /** Returns the number of entries in the map. */
+  size: () => number;
+  /** Returns `true` if the map has an entry with the given key. */
+  has: (key: K) => boolean;
+  /** Returns the value of the entry with the given key. */
+  getKey: (key: K) => V | undefined;
+  /**
+   * Sets the value of the entry with the given key.
+   * Named `setKey`, so that it does not replace `StoreAPI.set`.
+   */
+  setKey: (key: K, value: V) => void;
+  /** Removes the entry with the given key. */
+  delete: (key: K) => void;
+  /** Removes all entries from the map. */
+  clear: () => void;
+};
+
+export type MapAPIPlugin<T extends ReadonlyMap<any, any>> = Plugin<
+  StoreAPI<T>,
+  MapAPI<MapKey<T>, MapValue<T>>
+>;
+
+/**
+ * A plugin that adds map methods to the store.
+ * @template T The type of the state, must be a map type.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import mapAPI from "tyin/plugin-map";
+ *
+ * const useExample = extend(storeHook(new Map<string, number>()))
+ *   .with(mapAPI())
+ *   .seal();
+ * ```
+ */
+const mapAPI =
+  <T extends ReadonlyMap<any, any>>(): MapAPIPlugin<T> =>
+  (store) => ({
+    size: () => store.get().size,
+    has: (key) => store.get().has(key),
+    getKey: (key) => store.get().get(key),
+    setKey: (key, value) =>
+      store.set((state) =>
+        state.has(key) && Object.is(state.get(key), value)
+          ? state
+          : (new Map(state).set(key, value) as unknown as T)
+      ),
+    delete: (key) =>
+      store.set((state) => {
+        if (!state.has(key)) return state;
+
+        const next = new Map(state);
+
+        next.delete(key);
+
+        return next as unknown as T;
+      }),
+    clear: () =>
+      store.set((state) => (state.size ? (new Map() as unknown as T) : state)),
+  });
+
+export default mapAPI;
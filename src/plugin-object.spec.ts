@@ -34,3 +34,102 @@ describe("object API", () => {
     expect(store.get()).toEqual({ a: 2, b: 2 });
   });
 });
+
+describe("object API paths", () => {
+  type State = {
+    user: { name: string; born?: Date; address?: { city: string } };
+    todos: { done: boolean }[];
+  };
+
+  const createObjectStore = () =>
+    extend(
+      createStore<State>({
+        user: { name: "mausworks" },
+        todos: [{ done: false }, { done: false }],
+      })
+    ).with(objectAPI());
+
+  it("sets nested values", () => {
+    const store = createObjectStore();
+    const { todos } = store.get();
+
+    store.setIn(["user", "address", "city"], "Stockholm");
+
+    expect(store.get().user).toEqual({
+      name: "mausworks",
+      address: { city: "Stockholm" },
+    });
+    expect(store.get().todos).toBe(todos);
+  });
+
+  it("updates nested values", () => {
+    const store = createObjectStore();
+
+    store.updateIn(["todos", 1, "done"], (done) => !done);
+
+    expect(store.get().todos).toEqual([{ done: false }, { done: true }]);
+  });
+
+  it("removes nested values", () => {
+    const store = createObjectStore();
+
+    store.setIn(["user", "address"], { city: "Stockholm" });
+    store.removeIn(["user", "address"]);
+    store.removeIn(["todos", 0]);
+
+    expect(store.get()).toEqual({
+      user: { name: "mausworks" },
+      todos: [{ done: false }],
+    });
+  });
+
+  it("merges nested objects", () => {
+    const store = createObjectStore();
+
+    store.deepPatch({ user: { address: { city: "Stockholm" } } });
+
+    expect(store.get().user).toEqual({
+      name: "mausworks",
+      address: { city: "Stockholm" },
+    });
+  });
+
+  it("replaces values that are not plain objects", () => {
+    const store = createObjectStore();
+
+    store.deepPatch({ user: { born: new Date(1) } });
+    store.deepPatch({ user: { born: new Date(5) } });
+
+    expect(store.get().user.born).toBeInstanceOf(Date);
+    expect(store.get().user.born).toEqual(new Date(5));
+  });
+
+  it("keeps class instances when setting nested values", () => {
+    class Point {
+      constructor(public x: number, public y: number) {}
+    }
+
+    const store = extend(createStore({ point: new Point(1, 2) })).with(
+      objectAPI()
+    );
+
+    store.setIn(["point", "x"], 3);
+
+    expect(store.get().point).toBeInstanceOf(Point);
+    expect(store.get().point).toEqual(new Point(3, 2));
+  });
+
+  it("rejects invalid paths at compile time", () => {
+    // Never called, as the invalid updates would still be applied at runtime:
+    const assertInvalidPaths = () => {
+      const store = createObjectStore();
+
+      // @ts-expect-error `user` has no `adress`.
+      store.setIn(["user", "adress"], { city: "Stockholm" });
+      // @ts-expect-error `user.name` is a string.
+      store.setIn(["user", "name"], 1);
+    };
+
+    expect(assertInvalidPaths).toBeInstanceOf(Function);
+  });
+});
@@ -22,6 +22,40 @@ export type PartialUpdate<T extends ObjectLike | null> =
   | Partial<T>
   | Setter<T, Partial<T>>;
 
+/** Like `Partial`, but also makes the keys of nested objects optional. */
+export type DeepPartial<T> = T extends readonly any[]
+  ? T
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+export type DeepPartialUpdate<T extends ObjectLike | null> =
+  | DeepPartial<T>
+  | Setter<T, DeepPartial<T>>;
+
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * A list of keys (or indices) leading to a nested value in `T`.
+ * Paths are resolved up to eight levels deep.
+ */
+export type Path<T, D extends number = 8> = [D] extends [never]
+  ? never
+  : unknown extends T
+  ? (string | number)[]
+  : T extends readonly (infer V)[]
+  ? [number] | [number, ...Path<NonNullable<V>, Depth[D]>]
+  : T extends object
+  ? {
+      [K in keyof T & string]: [K] | [K, ...Path<NonNullable<T[K]>, Depth[D]>];
+    }[keyof T & string]
+  : never;
+
+/** The type of the value at the given path in `T`. */
+export type PathValue<T, P> = P extends [infer K, ...infer R]
+  ? PathValue<NonNullable<T>[K & keyof NonNullable<T>], R>
+  : T;
+
 /**
  * Convenience methods for working with objects,
  * most notably `patch`, which can be used to update the state
@@ -44,6 +78,49 @@ export type ObjectAPI<T extends ObjectLike | null> = {
   patch: (update: PartialUpdate<T>, merge?: MergeState<T>) => void;
   /** Removes the given key from the object. */
   remove: (key: OptionalKey<T>) => void;
+  /**
+   * Sets the value at the given path,
+   * creating any missing objects (or arrays) along the way.
+   * @param path The keys (or indices) leading to the value.
+   * @param value The next value.
+   * @example
+   * ```ts
+   * useExample.setIn(["user", "address", "city"], "Stockholm");
+   * ```
+   */
+  setIn: <P extends Path<NonNullable<T>>>(
+    path: [...P],
+    value: PathValue<T, P>
+  ) => void;
+  /**
+   * Updates the value at the given path.
+   * @param path The keys (or indices) leading to the value.
+   * @param update Computes the next value from the current value.
+   * @example
+   * ```ts
+   * useExample.updateIn(["todos", 2, "done"], (done) => !done);
+   * ```
+   */
+  updateIn: <P extends Path<NonNullable<T>>>(
+    path: [...P],
+    update: Setter<PathValue<T, P>>
+  ) => void;
+  /**
+   * Removes the value at the given path.
+   * Items are spliced out of arrays.
+   * @param path The keys (or indices) leading to the value.
+   */
+  removeIn: <P extends Path<NonNullable<T>>>(path: [...P]) => void;
+  /**
+   * Applies a partial update to the state, merging nested objects recursively.
+   * Arrays and other values are replaced.
+   * @param update The partial update to apply.
+   * @example
+   * ```ts
+   * useExample.deepPatch({ user: { address: { city: "Stockholm" } } });
+   * ```
+   */
+  deepPatch: (update: DeepPartialUpdate<T>) => void;
 };
 
 export type ObjectAPIPlugin<T extends ObjectLike | null> = Plugin<
@@ -56,6 +133,70 @@ const mergeLeft = <T extends ObjectLike | null, U = Partial<T>>(
   right: U
 ): T & U => ({ ...left, ...right });
 
+const isPlainObject = (value: any): value is ObjectLike => {
+  if (typeof value !== "object" || value === null) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+};
+
+// Copies keep the prototype of the value, so class instances stay instances:
+const copy = (value: any, key: PropertyKey): any =>
+  Array.isArray(value)
+    ? [...value]
+    : typeof value === "object" && value !== null
+    ? Object.assign(Object.create(Object.getPrototypeOf(value)), value)
+    : typeof key === "number"
+    ? []
+    : {};
+
+const updatePath = (
+  target: any,
+  [key, ...rest]: readonly PropertyKey[],
+  update: Setter<any>
+): any => {
+  const value = target?.[key];
+  const next = rest.length ? updatePath(value, rest, update) : update(value);
+
+  if (Object.is(value, next) && target != null) return target;
+
+  const result = copy(target, key);
+
+  result[key] = next;
+
+  return result;
+};
+
+const removePath = (
+  target: any,
+  [key, ...rest]: readonly PropertyKey[]
+): any => {
+  if (typeof target !== "object" || target === null || !(key in target)) {
+    return target;
+  } else if (rest.length) {
+    return updatePath(target, [key], (value) => removePath(value, rest));
+  } else if (Array.isArray(target)) {
+    return target.filter((_, index) => index !== key);
+  }
+
+  const { [key]: _, ...remainder } = target;
+
+  return remainder;
+};
+
+const mergeDeep = (left: any, right: any): any => {
+  if (!isPlainObject(left) || !isPlainObject(right)) return right;
+
+  const merged: ObjectLike = { ...left };
+
+  for (const key of Object.keys(right)) {
+    merged[key] = mergeDeep(left[key], right[key]);
+  }
+
+  return merged;
+};
+
 /**
  * A plugin that adds object methods to the store.
  * @param options (Optional) Options for the plugin.
@@ -94,6 +235,15 @@ const objectAPI =
 
       store.set(remainder as T);
     },
+    setIn: (path, value) =>
+      store.set((state) => updatePath(state, path, () => value)),
+    updateIn: (path, update) =>
+      store.set((state) => updatePath(state, path, update)),
+    removeIn: (path) => store.set((state) => removePath(state, path)),
+    deepPatch: (update) =>
+      store.set((state) =>
+        mergeDeep(state, typeof update === "function" ? update(state) : update)
+      ),
   });
 
 export default objectAPI;
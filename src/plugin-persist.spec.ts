@@ -1,7 +1,9 @@
 import { it, describe, expect, jest } from "bun:test";
 import createStore from "./store";
-import persist from "./plugin-persist";
+import persist, { createMemoryStorage } from "./plugin-persist";
+import { omit } from "./persist-paths";
 import extend from "./extend";
+import structured from "./serializer";
 
 describe("persist plugin", () => {
   it("gets the item on setup", () => {
@@ -38,4 +40,246 @@ describe("persist plugin", () => {
 
     expect(storage.setItem).toHaveBeenCalled();
   });
+
+  it("loads the state from an asynchronous storage", async () => {
+    const storage = {
+      getItem: async () => JSON.stringify("stored"),
+      setItem: async () => {},
+    };
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage })
+    );
+
+    expect(store.isHydrated()).toBe(false);
+    expect(store.get()).toEqual("initial");
+
+    await store.hydrated();
+
+    expect(store.isHydrated()).toBe(true);
+    expect(store.get()).toEqual("stored");
+  });
+
+  it("is hydrated immediately with a synchronous storage", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("test", JSON.stringify("stored"));
+
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage })
+    );
+
+    expect(store.isHydrated()).toBe(true);
+    expect(store.get()).toEqual("stored");
+  });
+
+  it("clears the persisted state", async () => {
+    const storage = createMemoryStorage();
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage })
+    );
+
+    store.set("updated");
+    await store.clearPersisted();
+
+    expect(storage.getItem("test")).toBeNull();
+  });
+
+  it("persists the state with its version", () => {
+    const storage = createMemoryStorage();
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage, version: 2 })
+    );
+
+    store.set("updated");
+
+    expect(storage.getItem("test")).toEqual(
+      JSON.stringify({ state: "updated", version: 2 })
+    );
+  });
+
+  it("migrates states persisted with another version", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("test", JSON.stringify({ state: "stored", version: 1 }));
+
+    const migrate = jest.fn((state: string) => state.toUpperCase());
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage, version: 2, migrate })
+    );
+
+    expect(migrate).toHaveBeenCalledWith("stored", 1);
+    expect(store.get()).toEqual("STORED");
+  });
+
+  it("discards states persisted with another version", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("test", JSON.stringify({ state: "stored", version: 1 }));
+
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage, version: 2 })
+    );
+
+    expect(store.get()).toEqual("initial");
+  });
+
+  it("reports errors instead of throwing", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("test", "{ invalid");
+
+    const onError = jest.fn();
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage, onError })
+    );
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(store.get()).toEqual("initial");
+    expect(store.isHydrated()).toBe(true);
+  });
+
+  it("reports failed migrations", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("test", JSON.stringify({ state: "stored", version: 0 }));
+
+    const onError = jest.fn();
+    const store = extend(createStore<string>("initial")).with(
+      persist<string>({
+        name: "test",
+        storage,
+        version: 1,
+        migrate: () => {
+          throw new Error("Unsupported version");
+        },
+        onError,
+      })
+    );
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(store.get()).toEqual("initial");
+  });
+
+  it("uses a custom serializer", () => {
+    const storage = createMemoryStorage();
+    const date = new Date(0);
+    const store = extend(createStore({ date })).with(
+      persist({ name: "test", storage, ...structured })
+    );
+
+    store.set({ date: new Date(1) });
+
+    const restored = extend(createStore({ date })).with(
+      persist({ name: "test", storage, ...structured })
+    );
+
+    expect(restored.get()).toEqual({ date: new Date(1) });
+  });
+
+  it("merges the persisted state with a custom merge", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("test", JSON.stringify({ state: { a: 2 }, version: 0 }));
+
+    const merge = jest.fn((persisted, current) => ({
+      ...current,
+      ...persisted,
+    }));
+    const store = extend(createStore({ a: 1, b: 1 })).with(
+      persist({ name: "test", storage, merge })
+    );
+
+    expect(merge).toHaveBeenCalledWith({ a: 2 }, { a: 1, b: 1 });
+    expect(store.get()).toEqual({ a: 2, b: 1 });
+  });
+
+  it("saves the pending update and stops saving on destroy", () => {
+    const storage = { getItem: jest.fn(), setItem: jest.fn() };
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage, delay: 1000 })
+    );
+
+    store.set("updated");
+    store.destroy();
+    store.set("destroyed");
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).toHaveBeenCalledWith(
+      "test",
+      JSON.stringify({ state: "updated", version: 0 })
+    );
+  });
+
+  it("saves the pending update when flushed", () => {
+    const storage = { getItem: jest.fn(), setItem: jest.fn() };
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage, delay: 1000 })
+    );
+
+    store.set("updated");
+    store.flushPersist();
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+
+    store.destroy();
+  });
+
+  it("applies updates made while hydrating to the loaded state", async () => {
+    const storage = createMemoryStorage();
+    const asyncStorage = {
+      getItem: async (key: string) => storage.getItem(key),
+      setItem: async (key: string, value: string) =>
+        storage.setItem(key, value),
+    };
+    storage.setItem(
+      "test",
+      JSON.stringify({ state: { todos: ["saved"], draft: "" }, version: 0 })
+    );
+
+    const store = extend(
+      createStore({ todos: [] as string[], draft: "", isLoading: false })
+    ).with(
+      persist({ name: "test", storage: asyncStorage, ...omit(["isLoading"]) })
+    );
+
+    store.set((state) => ({ ...state, isLoading: true }));
+    store.set((state) => ({ ...state, draft: "user edit" }));
+
+    expect(JSON.parse(storage.getItem("test") as string).state).toEqual({
+      todos: ["saved"],
+      draft: "",
+    });
+
+    await store.hydrated();
+
+    expect(store.get()).toEqual({
+      todos: ["saved"],
+      draft: "user edit",
+      isLoading: true,
+    });
+    expect(JSON.parse(storage.getItem("test") as string).state).toEqual({
+      todos: ["saved"],
+      draft: "user edit",
+    });
+  });
+
+  it("does not save the loaded state", () => {
+    const storage = {
+      getItem: () => JSON.stringify({ state: "stored", version: 0 }),
+      setItem: jest.fn(),
+    };
+    const store = extend(createStore<string>("initial")).with(
+      persist({ name: "test", storage })
+    );
+
+    expect(store.get()).toEqual("stored");
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it("cancels the pending save when clearing", async () => {
+    const storage = createMemoryStorage();
+    const store = extend(createStore<string>("a")).with(
+      persist({ name: "test", storage, delay: 5 })
+    );
+
+    store.set("b");
+    await store.clearPersisted();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(storage.getItem("test")).toBeNull();
+  });
 });
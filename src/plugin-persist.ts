@@ -5,10 +5,17 @@ import debounce from "./debounce";
 import { AnyState, StoreAPI } from "./store";
 import { Plugin } from "./extend";
 
-/** An object like `window.localStorage`. */
+/** A value, or a promise that resolves to the value. */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * An object like `window.localStorage`,
+ * or an asynchronous storage like React Native's `AsyncStorage`.
+ */
 export type StorageLike = {
-  getItem: (key: string) => string | null;
-  setItem: (key: string, value: string) => void;
+  getItem: (key: string) => MaybePromise<string | null>;
+  setItem: (key: string, value: string) => MaybePromise<void>;
+  removeItem?: (key: string) => MaybePromise<void>;
 };
 
 /** Options for the persist plugin. */
@@ -23,21 +30,190 @@ export type PersistOptions<T> = {
    * @default 0
    */
   delay?: number;
+  /**
+   * The maximum time that saving the state can be delayed,
+   * so that continuous updates are still saved periodically.
+   */
+  maxWait?: number;
   /** Modify the value before saving and/or after loading. */
   map?: (state: T) => T;
   /** Determine whether to save the state. */
   filter?: (state: T) => boolean;
+  /**
+   * Selects the part of the state to persist before saving,
+   * e.g. with `pick` or `omit` from `tyin/persist-paths`.
+   */
+  select?: (state: T) => any;
+  /**
+   * Merges the persisted state into the current state after loading.
+   *
+   * The default replaces the current state with the persisted state.
+   * @param persisted The loaded (and possibly partial) state.
+   * @param current The current state of the store.
+   */
+  merge?: (persisted: any, current: T) => T;
   /** The storage to use, defaults to localStorage in the browser. */
   storage?: StorageLike;
+  /**
+   * The version of the persisted state.
+   * Increase it when the shape of the state changes,
+   * and use `migrate` to convert states persisted with an older version.
+   *
+   * @default 0
+   */
+  version?: number;
+  /**
+   * Converts a state that was persisted with another version.
+   * Persisted states with another version are discarded if omitted.
+   * @param persisted The persisted state.
+   * @param fromVersion The version that the state was persisted with.
+   */
+  migrate?: (persisted: any, fromVersion: number) => T;
+  /**
+   * Called when the state can not be loaded or saved,
+   * e.g. when parsing or migrating the persisted state fails.
+   * The store keeps its current state when loading fails.
+   *
+   * @default console.error
+   */
+  onError?: (error: unknown) => void;
+  /**
+   * Converts the persisted state to a string before saving.
+   *
+   * @default JSON.stringify
+   */
+  serialize?: (persisted: PersistedState<T>) => string;
+  /**
+   * Converts the string back to the persisted state after loading.
+   *
+   * @default JSON.parse
+   */
+  deserialize?: (stored: string) => any;
+};
+
+/** The envelope that the state is persisted in. */
+export type PersistedState<T> = {
+  state: T;
+  version: number;
+};
+
+/** Methods for managing the persisted state. */
+export type PersistAPI = {
+  /**
+   * Returns a promise that resolves once the persisted state
+   * has been loaded into the store.
+   *
+   * For synchronous storages, the state is loaded as soon as the plugin is added.
+   * If the state is updated before the persisted state has been loaded,
+   * those updates are applied on top of the loaded state, and then saved.
+   */
+  hydrated: () => Promise<void>;
+  /** Returns `true` once the persisted state has been loaded into the store. */
+  isHydrated: () => boolean;
+  /**
+   * Removes the persisted state from the storage,
+   * and cancels the pending save, if any.
+   * This does nothing if the storage has no `removeItem` method.
+   */
+  clearPersisted: () => Promise<void>;
+  /**
+   * Saves the pending update right away, if saving is delayed.
+   * This is done automatically before the page is unloaded.
+   */
+  flushPersist: () => void;
+  /**
+   * Loads a stored state into the store without saving it again,
+   * e.g. a state that was saved by another tab.
+   * @param stored The stored state, as returned by `getItem`.
+   */
+  receivePersisted: (stored: string | null) => void;
+  /**
+   * Calls the listener with the stored state after each save.
+   * Use the returned function to remove it.
+   * @param listener A function that receives the stored state.
+   */
+  onPersist: (listener: (stored: string) => void) => () => void;
 };
 
-export type PersistPlugin<T extends AnyState> = Plugin<StoreAPI<T>>;
+export type PersistPlugin<T extends AnyState> = Plugin<StoreAPI<T>, PersistAPI>;
 
 const localStorage = typeof window !== "undefined" ? window.localStorage : null;
 
+const then = <T, U>(value: MaybePromise<T>, fn: (value: T) => U) =>
+  value instanceof Promise ? value.then(fn) : fn(value);
+
+const attempt = (
+  fn: () => MaybePromise<void>,
+  onError: (error: unknown) => void
+): MaybePromise<void> => {
+  try {
+    const result = fn();
+
+    return result instanceof Promise ? result.catch(onError) : result;
+  } catch (error) {
+    onError(error);
+  }
+};
+
+const isPersistedState = (value: any): value is PersistedState<unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  "state" in value &&
+  typeof value.version === "number";
+
+const isPlainObject = (value: any): value is Record<string, any> => {
+  if (typeof value !== "object" || value === null) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Re-applies the changes that were made from `base` to `current`
+ * on top of the `loaded` state, key by key within plain objects.
+ */
+const rebase = (loaded: any, base: any, current: any): any => {
+  if (Object.is(base, current)) return loaded;
+  if (![loaded, base, current].every(isPlainObject)) return current;
+
+  const rebased = { ...loaded };
+
+  for (const key of new Set([...Object.keys(base), ...Object.keys(current)])) {
+    if (!(key in current)) {
+      delete rebased[key];
+    } else if (!(key in base) || !Object.is(base[key], current[key])) {
+      rebased[key] = rebase(loaded[key], base[key], current[key]);
+    }
+  }
+
+  return rebased;
+};
+
+/**
+ * Creates a storage that keeps the items in memory,
+ * which is useful for testing or server-side rendering.
+ */
+export const createMemoryStorage = (): StorageLike => {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
 /**
  * A plugin that persists the state of the store on changes
  * to a storage of your choice, or localStorage by default.
+ *
+ * If the storage is asynchronous, the persisted state is loaded
+ * once `getItem` resolves: use `hydrated` to wait for it.
  * @param options Configure the plugin.
  * @template T The type of the state.
  * @example
@@ -50,6 +226,14 @@ const localStorage = typeof window !== "undefined" ? window.localStorage : null;
  *   .with(persist({ name: "Example" }))
  *   .seal();
  * ```
+ * @example
+ * ```ts
+ * import structured from "tyin/serializer";
+ *
+ * const useDates = extend(storeHook({ createdAt: new Date() }))
+ *   .with(persist({ name: "Dates", ...structured }))
+ *   .seal();
+ * ```
  */
 const persist = <T extends AnyState>(
   options: PersistOptions<T>
@@ -57,24 +241,145 @@ const persist = <T extends AnyState>(
   const {
     name,
     delay = 0,
+    maxWait,
     map = (s) => s,
     filter = () => true,
     storage = localStorage,
+    version = 0,
+    migrate,
+    onError = console.error,
+    serialize = JSON.stringify,
+    deserialize = JSON.parse,
+    select = (s) => s,
+    merge = (persisted) => persisted,
   } = options;
 
   return (store) => {
-    if (!storage) return;
+    let isHydrated = false;
+    let isReceiving = false;
+    let isChangedWhileHydrating = false;
+    let listeners: ((stored: string) => void)[] = [];
+
+    const initialState = store.get();
+
+    /**
+     * Loads the stored state as if it was loaded onto `base`,
+     * and then re-applies the updates that were made since `base`.
+     */
+    const load = (stored: string | null, base: T) => {
+      if (!stored) return;
+
+      const persisted = deserialize(stored);
+      let { state, version: fromVersion } = isPersistedState(persisted)
+        ? persisted
+        : { state: persisted, version: 0 };
+
+      if (fromVersion !== version) {
+        if (!migrate) return;
 
-    const stored = storage?.getItem(name);
-    if (stored) store.set(map(JSON.parse(stored)));
+        state = migrate(state, fromVersion);
+      }
 
-    store.subscribe(
-      debounce(delay, (_, newState) => {
-        if (!filter(newState)) return;
+      store.set(rebase(map(merge(state, base)), base, store.get()));
+    };
+    const receive = (stored: string | null, base = store.get()) =>
+      attempt(() => {
+        isReceiving = true;
 
-        storage?.setItem(name, JSON.stringify(map(newState)));
-      })
+        try {
+          load(stored, base);
+        } finally {
+          isReceiving = false;
+        }
+      }, onError);
+
+    const save = debounce(
+      delay,
+      (_: T, newState: T) => {
+        if (!storage || !filter(newState)) return;
+
+        attempt(() => {
+          const persisted: PersistedState<T> = {
+            state: select(map(newState)),
+            version,
+          };
+          const stored = serialize(persisted);
+
+          return then(storage.setItem(name, stored), () =>
+            listeners.forEach((listener) => listener(stored))
+          );
+        }, onError);
+      },
+      { maxWait }
     );
+
+    const hydration = Promise.resolve(
+      then(
+        attempt(() => {
+          if (!storage) return;
+
+          // Updates made while hydrating are applied on top of the loaded state:
+          return then(storage.getItem(name), (stored) => {
+            receive(stored, initialState);
+          });
+        }, onError),
+        () => {
+          isHydrated = true;
+
+          if (isChangedWhileHydrating) save(store.get(), store.get());
+        }
+      )
+    );
+
+    if (storage) {
+      const unsubscribe = store.subscribe((oldState, newState) => {
+        if (isReceiving) return;
+
+        if (isHydrated) {
+          save(oldState, newState);
+        } else {
+          isChangedWhileHydrating = true;
+        }
+      });
+
+      store.onDestroy(() => {
+        unsubscribe();
+        save.flush();
+      });
+    }
+
+    if (storage && typeof window !== "undefined") {
+      // Save the pending update before the page is unloaded, or it is lost:
+      const flush = () => save.flush();
+
+      window.addEventListener("beforeunload", flush);
+      window.addEventListener("pagehide", flush);
+      store.onDestroy(() => {
+        window.removeEventListener("beforeunload", flush);
+        window.removeEventListener("pagehide", flush);
+      });
+    }
+
+    return {
+      hydrated: () => hydration,
+      isHydrated: () => isHydrated,
+      clearPersisted: () => {
+        save.cancel();
+
+        return Promise.resolve(storage?.removeItem?.(name));
+      },
+      flushPersist: save.flush,
+      receivePersisted: (stored) => {
+        receive(stored);
+      },
+      onPersist: (listener) => {
+        listeners = [...listeners, listener];
+
+        return () => {
+          listeners = listeners.filter((other) => other !== listener);
+        };
+      },
+    };
   };
 };
 
@@ -0,0 +1,50 @@
+import { it, describe, expect } from "bun:test";
+import createStore from "./store";
+import setAPI from "./plugin-set";
+import extend from "./extend";
+
+describe("set API", () => {
+  it("adds values", () => {
+    const store = extend(createStore(new Set<string>())).with(setAPI());
+    const state = store.get();
+
+    store.add("a", "b");
+
+    expect(store.get()).not.toBe(state);
+    expect(state.size).toEqual(0);
+    expect([...store.get()]).toEqual(["a", "b"]);
+  });
+
+  it("ignores unchanged values", () => {
+    const store = extend(createStore(new Set(["a"]))).with(setAPI());
+    const state = store.get();
+
+    store.add("a");
+    store.delete("b");
+
+    expect(store.get()).toBe(state);
+  });
+
+  it("deletes values", () => {
+    const store = extend(createStore(new Set(["a", "b", "c"]))).with(setAPI());
+
+    store.delete("a", "b");
+
+    expect([...store.get()]).toEqual(["c"]);
+
+    store.clear();
+
+    expect(store.size()).toEqual(0);
+  });
+
+  it("toggles values", () => {
+    const store = extend(createStore(new Set(["a"]))).with(setAPI());
+
+    store.toggle("a");
+    store.toggle("b");
+    store.toggle("b", true);
+
+    expect([...store.get()]).toEqual(["b"]);
+    expect(store.has("a")).toBe(false);
+  });
+});
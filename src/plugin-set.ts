@@ -0,0 +1,82 @@
+import { StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/** The type of the values in a set. */
+export type SetMember<T> = T extends ReadonlySet<infer V> ? V : never;
+
+/**
+ * Convenience methods for working with sets.
+ * Updates replace the state with a new set, instead of mutating it.
+ */
+export type SetAPI<V> = {
+  /** Returns the number of values in the set. */
+  size: () => number;
+  /** Returns `true` if the set has the given value. */
+  has: (value: V) => boolean;
+  /** Adds the given values to the set. */
+  add: (...values: V[]) => void;
+  /** Removes the given values from the set. */
+  delete: (...values: V[]) => void;
+  /**
+   * Adds the value if it is missing, or removes it if it is present.
+   * @param value The value to toggle.
+   * @param force (Optional) Always add the value if `true`,
+   * or always remove it if `false`.
+   */
+  toggle: (value: V, force?: boolean) => void;
+  /** Removes all values from the set. */
+  clear: () => void;
+};
+
+export type SetAPIPlugin<T extends ReadonlySet<any>> = Plugin<
+  StoreAPI<T>,
+  SetAPI<SetMember<T>>
+>;
+
+/**
+ * A plugin that adds set methods to the store.
+ * @template T The type of the state, must be a set type.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import setAPI from "tyin/plugin-set";
+ *
+ * const useExample = extend(storeHook(new Set<string>()))
+ *   .with(setAPI())
+ *   .seal();
+ * ```
+ */
+const setAPI =
+  <T extends ReadonlySet<any>>(): SetAPIPlugin<T> =>
+  (store) => {
+    const add = (values: SetMember<T>[]) =>
+      store.set((state) =>
+        values.every((value) => state.has(value))
+          ? state
+          : (new Set([...state, ...values]) as unknown as T)
+      );
+    const remove = (values: SetMember<T>[]) =>
+      store.set((state) =>
+        values.some((value) => state.has(value))
+          ? (new Set(
+              [...state].filter((value) => !values.includes(value))
+            ) as unknown as T)
+          : state
+      );
+
+    return {
+      size: () => store.get().size,
+      has: (value) => store.get().has(value),
+      add: (...values) => add(values),
+      delete: (...values) => remove(values),
+      toggle: (value, force = !store.get().has(value)) =>
+        force ? add([value]) : remove([value]),
+      clear: () =>
+        store.set((state) =>
+          state.size ? (new Set() as unknown as T) : state
+        ),
+    };
+  };
+
+export default setAPI;
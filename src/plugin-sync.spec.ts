@@ -0,0 +1,61 @@
+import { it, describe, expect, jest } from "bun:test";
+import createStore from "./store";
+import persist, { createMemoryStorage } from "./plugin-persist";
+import sync, { ChannelLike } from "./plugin-sync";
+import extend from "./extend";
+
+const createFakeChannels = () => {
+  type Listener = (event: { data: any }) => void;
+  const channels: Listener[][] = [];
+
+  return (): ChannelLike => {
+    const listeners: Listener[] = [];
+
+    channels.push(listeners);
+
+    return {
+      postMessage: (data) =>
+        channels
+          .filter((other) => other !== listeners)
+          .forEach((other) => other.forEach((listener) => listener({ data }))),
+      addEventListener: (_, listener) => listeners.push(listener),
+      removeEventListener: (_, listener) =>
+        listeners.splice(listeners.indexOf(listener), 1),
+    };
+  };
+};
+
+describe("sync plugin", () => {
+  it("syncs the state between stores using a channel", () => {
+    const storage = createMemoryStorage();
+    const setItem = jest.spyOn(storage, "setItem");
+    const openChannel = createFakeChannels();
+    const first = extend(createStore<string>("initial"))
+      .with(persist({ name: "test", storage }))
+      .with(sync(openChannel()));
+    const second = extend(createStore<string>("initial"))
+      .with(persist({ name: "test", storage }))
+      .with(sync(openChannel()));
+
+    first.set("updated");
+
+    expect(second.get()).toEqual("updated");
+    expect(setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops syncing on destroy", () => {
+    const storage = createMemoryStorage();
+    const openChannel = createFakeChannels();
+    const first = extend(createStore<string>("initial"))
+      .with(persist({ name: "test", storage }))
+      .with(sync(openChannel()));
+    const second = extend(createStore<string>("initial"))
+      .with(persist({ name: "test", storage }))
+      .with(sync(openChannel()));
+
+    second.destroy();
+    first.set("updated");
+
+    expect(second.get()).toEqual("initial");
+  });
+});
@@ -0,0 +1,77 @@
+/// <reference lib="dom" />
+
+import { AnyState, StoreAPI } from "./store";
+import { Plugin } from "./extend";
+import { PersistAPI } from "./plugin-persist";
+
+/** An object like `BroadcastChannel`. */
+export type ChannelLike = {
+  postMessage: (message: any) => void;
+  addEventListener: (
+    type: "message",
+    listener: (event: { data: any }) => void
+  ) => void;
+  removeEventListener?: (
+    type: "message",
+    listener: (event: { data: any }) => void
+  ) => void;
+};
+
+export type SyncPlugin<T extends AnyState> = Plugin<
+  StoreAPI<T> & PersistAPI,
+  {}
+>;
+
+/**
+ * A plugin that keeps a persisted store in sync with other tabs (or windows)
+ * that persist it. Add it after the persist plugin.
+ *
+ * States received from others are loaded like persisted states,
+ * and are not saved again.
+ * @param source Where to receive the states from:
+ * - The name that the state is persisted with: Listens to `storage` events,
+ * which are only dispatched for the `localStorage` and `sessionStorage` of the window.
+ * - A `BroadcastChannel` (or an object like it): Posts the persisted state
+ * to the channel on save, and loads the states posted by others.
+ * @template T The type of the state.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import persist from "tyin/plugin-persist";
+ * import sync from "tyin/plugin-sync";
+ *
+ * const useExample = extend(storeHook({ a: 1, b: 2 }))
+ *   .with(persist({ name: "Example" }))
+ *   .with(sync("Example"))
+ *   .seal();
+ * ```
+ */
+const sync =
+  <T extends AnyState>(source: string | ChannelLike): SyncPlugin<T> =>
+  (store) => {
+    if (typeof source === "object") {
+      const onMessage = (event: { data: any }) =>
+        store.receivePersisted(event.data);
+      const stopPosting = store.onPersist((stored) =>
+        source.postMessage(stored)
+      );
+
+      source.addEventListener("message", onMessage);
+      store.onDestroy(() => {
+        stopPosting();
+        source.removeEventListener?.("message", onMessage);
+      });
+    } else if (typeof window !== "undefined") {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === source) store.receivePersisted(event.newValue);
+      };
+
+      window.addEventListener("storage", onStorage);
+      store.onDestroy(() => window.removeEventListener("storage", onStorage));
+    }
+
+    return {};
+  };
+
+export default sync;
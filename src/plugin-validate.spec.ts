@@ -0,0 +1,58 @@
+import { it, describe, expect, jest } from "bun:test";
+import createStore from "./store";
+import validate, { SchemaLike } from "./plugin-validate";
+import extend from "./extend";
+
+const notNegative = (count: number) =>
+  count < 0 ? "Count must not be negative" : undefined;
+
+describe("validate plugin", () => {
+  it("rejects invalid updates", () => {
+    const store = extend(createStore<number>(1)).with(validate(notNegative));
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+    store.set(-1);
+
+    expect(store.get()).toEqual(1);
+    expect(store.validationError()).toEqual("Count must not be negative");
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it("clears the error after a valid update", () => {
+    const store = extend(createStore<number>(1)).with(validate(notNegative));
+
+    store.set(-1);
+    store.set(2);
+
+    expect(store.get()).toEqual(2);
+    expect(store.validationError()).toBeUndefined();
+  });
+
+  it("reports invalid updates", () => {
+    const onInvalid = jest.fn();
+    const store = extend(createStore<number>(1)).with(
+      validate(notNegative, { mode: "report", onInvalid })
+    );
+
+    store.set(-1);
+
+    expect(store.get()).toEqual(-1);
+    expect(onInvalid).toHaveBeenCalledWith("Count must not be negative", -1);
+  });
+
+  it("accepts a schema", () => {
+    const schema: SchemaLike = {
+      safeParse: (value) =>
+        typeof value === "string"
+          ? { success: true }
+          : { success: false, error: "Expected a string" },
+    };
+    const store = extend(createStore<any>("a")).with(validate(schema));
+
+    store.set(1);
+
+    expect(store.get()).toEqual("a");
+    expect(store.validationError()).toEqual("Expected a string");
+  });
+});
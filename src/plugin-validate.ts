@@ -0,0 +1,103 @@
+import { AnyState, StoreAPI } from "./store";
+import { Plugin } from "./extend";
+
+/**
+ * A function that validates the state.
+ * Returns an error if the state is invalid,
+ * or `undefined`, `null` or `false` if it is valid.
+ */
+export type Validator<T> = (state: T) => unknown;
+
+/** The result of parsing a value with a schema. */
+export type SafeParseResult =
+  | { success: true }
+  | { success: false; error: unknown };
+
+/** A schema that can validate the state, e.g. from zod. */
+export type SchemaLike = {
+  safeParse: (value: unknown) => SafeParseResult;
+};
+
+/** Options for the validate plugin. */
+export type ValidateOptions<T> = {
+  /**
+   * What to do with invalid updates:
+   * - `"reject"`: The update is ignored, and the state is kept.
+   * - `"report"`: The update is applied, and the error is reported.
+   *
+   * @default "reject"
+   */
+  mode?: "reject" | "report";
+  /**
+   * Called with the error and the invalid state
+   * before subscribers are notified of the update.
+   */
+  onInvalid?: (error: unknown, state: T) => void;
+};
+
+export type ValidateAPI = {
+  /**
+   * Returns the error from validating the last update,
+   * or `undefined` if the last update was valid.
+   */
+  validationError: () => unknown;
+};
+
+export type ValidatePlugin<T extends AnyState> = Plugin<
+  StoreAPI<T>,
+  ValidateAPI
+>;
+
+/**
+ * A plugin that validates the state before each update is applied,
+ * and rejects or reports invalid updates.
+ * @param validator A function that returns an error for an invalid state,
+ * or a schema with a `safeParse` method.
+ * @param options (Optional) Configure the plugin.
+ * @template T The type of the state.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import validate from "tyin/plugin-validate";
+ *
+ * const useCart = extend(storeHook({ count: 0 }))
+ *   .with(validate((cart) => cart.count < 0 && "Count must not be negative"))
+ *   .seal();
+ * ```
+ */
+const validate =
+  <T extends AnyState>(
+    validator: Validator<T> | SchemaLike,
+    options?: ValidateOptions<T>
+  ): ValidatePlugin<T> =>
+  (store) => {
+    const mode = options?.mode ?? "reject";
+    const check: Validator<T> =
+      typeof validator === "function"
+        ? validator
+        : (state) => {
+            const result = validator.safeParse(state);
+
+            return result.success ? undefined : result.error;
+          };
+
+    let error: unknown;
+
+    store.intercept((next, oldState) => {
+      const result = check(next);
+
+      error = result === false || result === null ? undefined : result;
+      if (error === undefined) return next;
+
+      options?.onInvalid?.(error, next);
+
+      return mode === "reject" ? oldState : next;
+    });
+
+    return {
+      validationError: () => error,
+    };
+  };
+
+export default validate;
@@ -0,0 +1,90 @@
+import { it, describe, expect, jest, beforeAll, afterAll } from "bun:test";
+import { h, render } from "preact";
+import { act } from "preact/test-utils";
+import createStore from "./store";
+import { shallow } from "./equals";
+import preactHook from "./preact";
+
+// The components render nothing, so Preact only needs a stand-in for the DOM:
+const root: any = {
+  childNodes: [],
+  firstChild: null,
+  insertBefore: () => {},
+  appendChild: () => {},
+  removeChild: () => {},
+};
+
+const mount = <T>(hook: () => T) => {
+  const renders: T[] = [];
+  const Component = () => {
+    renders.push(hook());
+
+    return null;
+  };
+
+  act(() => render(h(Component, null), root));
+
+  return renders;
+};
+
+describe("Preact hook", () => {
+  beforeAll(() => {
+    (globalThis as any).document = {};
+  });
+
+  afterAll(() => {
+    act(() => render(null, root));
+    delete (globalThis as any).document;
+  });
+
+  it("selects a value and re-renders when it changes", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const useExample = preactHook(store);
+    const renders = mount(() => useExample((state) => state.a));
+
+    act(() => store.set({ a: 1, b: 2 }));
+    act(() => store.set({ a: 2, b: 2 }));
+
+    expect(renders).toEqual([1, 2]);
+  });
+
+  it("keeps the selected value while it is deemed equal", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const useExample = preactHook(store);
+    const renders = mount(() =>
+      useExample((state) => ({ a: state.a }), shallow)
+    );
+
+    act(() => store.set({ a: 1, b: 2 }));
+
+    expect(renders).toHaveLength(1);
+
+    act(() => store.set({ a: 2, b: 2 }));
+
+    expect(renders).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it("unsubscribes when the component unmounts", () => {
+    const store = createStore<number>(1);
+    const subscribe = store.subscribe;
+    const unsubscribe = jest.fn();
+
+    store.subscribe = ((subscriber: () => void) => {
+      const stop = subscribe(subscriber);
+
+      return () => {
+        unsubscribe();
+        stop();
+      };
+    }) as typeof subscribe;
+
+    const useExample = preactHook(store);
+    const renders = mount(() => useExample());
+
+    act(() => render(null, root));
+    act(() => store.set(2));
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    expect(renders).toEqual([1]);
+  });
+});
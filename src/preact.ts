@@ -0,0 +1,33 @@
+import { useRef, useSyncExternalStore } from "preact/compat";
+import { AnyState, StateComparer } from "./store";
+import { ReadonlyStoreAPI } from "./derive";
+import { memoSelector, StateSelector, StateSelectorHook } from "./selector";
+
+/**
+ * Creates a Preact hook that reacts to state changes within a store.
+ * The hook has the same signature as the hooks created by `tyin/hook`.
+ * @param store The store to react to.
+ * @template T The type of the state.
+ * @example
+ * ```ts
+ * import createStore from "tyin/store";
+ * import preactHook from "tyin/preact";
+ *
+ * const exampleStore = createStore({ a: 1, b: 2 });
+ * const useExample = preactHook(exampleStore);
+ *
+ * const a = useExample((state) => state.a);
+ * ```
+ */
+export default function preactHook<T extends AnyState>(
+  store: ReadonlyStoreAPI<T>
+): StateSelectorHook<T> {
+  return (select?: StateSelector<T, any>, equals?: StateComparer<any>) => {
+    const oldRef = useRef<any>();
+    const selectValue = memoSelector(select, equals, oldRef);
+
+    return useSyncExternalStore(store.subscribe, () =>
+      selectValue(store.get())
+    );
+  };
+}
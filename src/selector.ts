@@ -0,0 +1,58 @@
+import { StateComparer } from "./store";
+
+/** A function that returns a value from a state. */
+export type StateSelector<T, U = T> = (state: T) => U;
+
+/** A function that returns the current state, or selects a value from it. */
+export type StateSelectorHook<T> = {
+  /** Returns the current state. */
+  (): T;
+  /**
+   * Selects a value from the state.
+   * @param select A function that returns a value from the state.
+   * @param equals (Optional) Compare the previously selected and next value:
+   * If the values are equal between updates,
+   * the hook will not re-render.
+   * The default is `Object.is`.
+   * @example
+   * ```ts
+   * const a = useExample((state) => state.a);
+   * const b = useExample((state) => state.b, (prev, next) => next > prev);
+   * const size = useExample(() => useExample().size());
+   * ```
+   */
+  <U>(select: StateSelector<T, U>, equals?: StateComparer<U>): U;
+};
+
+/**
+ * Creates a selector that returns the previously selected value,
+ * for as long as the next value is deemed equal to it.
+ *
+ * This is how all bindings select values from the state.
+ * @param select (Optional) A function that returns a value from the state.
+ * The default returns the state.
+ * @param equals (Optional) Compare the previously selected and next value.
+ * The default is `Object.is`.
+ * @param ref (Optional) Holds the previously selected value,
+ * e.g. a ref that outlives the selector. Must initially be empty.
+ * @template T The type of the state.
+ * @template U The type of the selected value.
+ */
+export const memoSelector =
+  <T, U = T>(
+    select: StateSelector<T, U> = (state) => state as any,
+    equals: StateComparer<U> = Object.is,
+    ref: { current: any } = { current: undefined }
+  ): StateSelector<T, U> =>
+  (state) => {
+    const oldValue = ref.current;
+    const newValue = select(state);
+
+    if (oldValue && equals(oldValue.value, newValue)) {
+      return oldValue.value;
+    }
+
+    ref.current = { value: newValue };
+
+    return newValue;
+  };
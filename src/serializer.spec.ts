@@ -0,0 +1,43 @@
+import { it, describe, expect } from "bun:test";
+import structured from "./serializer";
+
+const roundTrip = (value: any) =>
+  structured.deserialize(structured.serialize(value));
+
+describe("structured serializer", () => {
+  it("round-trips JSON values", () => {
+    const value = { a: 1, b: ["c", null, true], d: { e: "f" } };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("round-trips dates", () => {
+    const date = new Date(2023, 0, 1);
+
+    expect(roundTrip({ date })).toEqual({ date });
+  });
+
+  it("round-trips maps and sets", () => {
+    const value = {
+      map: new Map([["a", new Set([1, 2])]]),
+      set: new Set([new Date(0)]),
+    };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("round-trips big integers and undefined", () => {
+    const value = { big: BigInt("9007199254740993"), missing: undefined };
+    const result = roundTrip(value);
+
+    expect(result.big).toBe(value.big);
+    expect("missing" in result).toBe(true);
+    expect(result.missing).toBeUndefined();
+  });
+
+  it("escapes objects that look like tagged values", () => {
+    const value = { $type: "Date", value: 0 };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+});
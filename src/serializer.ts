@@ -0,0 +1,70 @@
+/** Converts values to and from strings. */
+export type Serializer = {
+  serialize: (value: any) => string;
+  deserialize: (text: string) => any;
+};
+
+const TYPE = "$type";
+
+type Tagged = { [TYPE]: string; value?: any };
+
+const mapEntries = (value: object, fn: (value: any) => any) =>
+  Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fn(v)]));
+
+const tag = (type: string, value?: any): Tagged => ({ [TYPE]: type, value });
+
+const encode = (value: any): any => {
+  if (value === undefined) return tag("undefined");
+  if (typeof value === "bigint") return tag("BigInt", value.toString());
+  if (value instanceof Date) return tag("Date", value.getTime());
+  if (value instanceof Map) return tag("Map", encode([...value]));
+  if (value instanceof Set) return tag("Set", encode([...value]));
+  if (Array.isArray(value)) return value.map(encode);
+  if (typeof value !== "object" || value === null) return value;
+
+  const encoded = mapEntries(value, encode);
+
+  // Escape objects that could be mistaken for tagged values:
+  return TYPE in value ? tag("Object", encoded) : encoded;
+};
+
+const revivers: Record<string, (value: any) => any> = {
+  undefined: () => undefined,
+  BigInt: (value) => BigInt(value),
+  Date: (value) => new Date(value ?? NaN),
+  Map: (value) => new Map(decode(value)),
+  Set: (value) => new Set(decode(value)),
+  Object: (value) => mapEntries(value, decode),
+};
+
+const decode = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decode);
+  if (typeof value !== "object" || value === null) return value;
+  if (TYPE in value && revivers.hasOwnProperty(value[TYPE])) {
+    return revivers[value[TYPE]](value.value);
+  }
+
+  return mapEntries(value, decode);
+};
+
+/**
+ * A serializer that round-trips values that are not supported by JSON:
+ * `Date`, `Map`, `Set`, `BigInt` and `undefined`.
+ * @example
+ * ```ts
+ * import storeHook from "tyin/hook";
+ * import extend from "tyin/extend";
+ * import persist from "tyin/plugin-persist";
+ * import structured from "tyin/serializer";
+ *
+ * const useExample = extend(storeHook({ visited: new Set<string>() }))
+ *   .with(persist({ name: "Example", ...structured }))
+ *   .seal();
+ * ```
+ */
+const structured: Serializer = {
+  serialize: (value) => JSON.stringify(encode(value)),
+  deserialize: (text) => decode(JSON.parse(text)),
+};
+
+export default structured;
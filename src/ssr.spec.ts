@@ -0,0 +1,34 @@
+import { it, describe, expect } from "bun:test";
+import createStore from "./store";
+import { dehydrate, hydrate } from "./ssr";
+
+describe("SSR API", () => {
+  it("captures the states of the stores", () => {
+    const user = createStore({ name: "Alice" });
+    const count = createStore<number>(1);
+
+    expect(dehydrate({ user, count })).toEqual({
+      user: { name: "Alice" },
+      count: 1,
+    });
+  });
+
+  it("restores the states of the stores", () => {
+    const user = createStore({ name: "Alice" });
+    const count = createStore<number>(1);
+
+    hydrate({ user, count }, { count: 2 });
+
+    expect(user.get()).toEqual({ name: "Alice" });
+    expect(count.get()).toEqual(2);
+  });
+
+  it("round-trips a snapshot", () => {
+    const server = { count: createStore<number>(3) };
+    const client = { count: createStore<number>(0) };
+
+    hydrate(client, JSON.parse(JSON.stringify(dehydrate(server))));
+
+    expect(client.count.get()).toEqual(3);
+  });
+});
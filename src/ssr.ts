@@ -0,0 +1,51 @@
+import { StoreAPI } from "./store";
+
+/** A record of stores, by the name of their state in a snapshot. */
+export type StoreRecord = Record<string, Pick<StoreAPI<any>, "get" | "set">>;
+
+/** The states of a record of stores, by their names. */
+export type Snapshot<S extends StoreRecord> = {
+  [K in keyof S]: ReturnType<S[K]["get"]>;
+};
+
+/**
+ * Captures the states of the stores, e.g. to send them from the server
+ * to the client, where they can be restored with `hydrate`.
+ * @param stores The stores to capture the states of, by name.
+ * @template S The types of the stores.
+ * @example
+ * ```ts
+ * import { dehydrate } from "tyin/ssr";
+ *
+ * const snapshot = dehydrate({ user: useUser, cart: useCart });
+ * const html = `<script>window.__STATE__ = ${JSON.stringify(snapshot)}</script>`;
+ * ```
+ */
+export const dehydrate = <S extends StoreRecord>(stores: S): Snapshot<S> =>
+  Object.fromEntries(
+    Object.entries(stores).map(([name, store]) => [name, store.get()])
+  ) as Snapshot<S>;
+
+/**
+ * Restores the states of the stores from a snapshot created with `dehydrate`.
+ * Stores that are missing from the snapshot keep their current state.
+ * @param stores The stores to restore the states of, by name.
+ * @param snapshot The states to restore.
+ * @template S The types of the stores.
+ * @example
+ * ```ts
+ * import { hydrate } from "tyin/ssr";
+ *
+ * hydrate({ user: useUser, cart: useCart }, window.__STATE__);
+ * ```
+ */
+export const hydrate = <S extends StoreRecord>(
+  stores: S,
+  snapshot: Partial<Snapshot<S>>
+) => {
+  for (const name in snapshot) {
+    if (name in stores && snapshot[name] !== undefined) {
+      stores[name].set(snapshot[name]);
+    }
+  }
+};
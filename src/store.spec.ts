@@ -1,5 +1,6 @@
 import { it, describe, expect, jest } from "bun:test";
 import createStore from "./store";
+import { deep } from "./equals";
 
 describe("store API", () => {
   it("has the initial state", () => {
@@ -42,3 +43,164 @@ describe("store API", () => {
     expect(subscriber).not.toHaveBeenCalled();
   });
 });
+
+describe("batched updates", () => {
+  it("notifies subscribers once after the batch", () => {
+    const store = createStore<number>(1);
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+    store.batch(() => {
+      store.set(2);
+      store.batch(() => store.set(3));
+
+      expect(subscriber).not.toHaveBeenCalled();
+    });
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenCalledWith(1, 3);
+  });
+
+  it("does not notify subscribers if the state is unchanged", () => {
+    const store = createStore<number>(1);
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+    store.batch(() => {
+      store.set(2);
+      store.set(1);
+    });
+
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it("compares the state with the equals option of the store", () => {
+    const initial = { tags: ["a"] };
+    const store = createStore(initial, { equals: deep });
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+    store.batch(() => {
+      store.set({ tags: ["b"] });
+      store.set({ tags: ["a"] });
+    });
+
+    expect(subscriber).not.toHaveBeenCalled();
+    expect(store.get()).toBe(initial);
+  });
+
+  it("rolls back the state when the callback throws", () => {
+    const store = createStore<number>(1);
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+
+    expect(() =>
+      store.batch(() => {
+        store.set(2);
+        throw new Error("Oops");
+      })
+    ).toThrow("Oops");
+    expect(store.get()).toEqual(1);
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+});
+
+describe("middleware", () => {
+  it("transforms updates", () => {
+    const store = createStore<number>(1, {
+      middleware: [(next) => Math.max(0, next)],
+    });
+
+    store.set(-1);
+
+    expect(store.get()).toEqual(0);
+  });
+
+  it("vetoes updates by returning the old state", () => {
+    const store = createStore<number>(1);
+    const subscriber = jest.fn();
+
+    store.subscribe(subscriber);
+    store.intercept((next, oldState) => (next > 10 ? oldState : next));
+    store.set(11);
+
+    expect(store.get()).toEqual(1);
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it("calls middleware in order", () => {
+    const store = createStore<string>("");
+
+    store.intercept((next) => next + "a");
+    store.intercept((next) => next + "b");
+    store.set("");
+
+    expect(store.get()).toEqual("ab");
+  });
+
+  it("removes middleware", () => {
+    const store = createStore<number>(1);
+    const middleware = jest.fn((next: number) => next);
+    const remove = store.intercept(middleware);
+
+    remove();
+    store.set(2);
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
+
+describe("selector subscriptions", () => {
+  it("notifies listeners when the selected value changes", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const listener = jest.fn();
+
+    store.subscribe((state) => state.a, listener);
+    store.set({ a: 1, b: 2 });
+    store.set({ a: 2, b: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1, 2);
+  });
+
+  it("compares the selected values", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const listener = jest.fn();
+
+    store.subscribe((state) => ({ a: state.a }), listener, {
+      equals: (prev, next) => prev.a === next.a,
+    });
+    store.set({ a: 1, b: 2 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("fires immediately", () => {
+    const store = createStore({ a: 1 });
+    const listener = jest.fn();
+
+    store.subscribe((state) => state.a, listener, { fireImmediately: true });
+
+    expect(listener).toHaveBeenCalledWith(1, 1);
+  });
+});
+
+describe("destroy", () => {
+  it("calls the cleanup functions and removes subscribers on destroy", () => {
+    const store = createStore<number>(1);
+    const subscriber = jest.fn();
+    const cleanup = jest.fn();
+    const removed = jest.fn();
+
+    store.subscribe(subscriber);
+    store.onDestroy(cleanup);
+    store.onDestroy(removed)();
+    store.destroy();
+    store.set(2);
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+});
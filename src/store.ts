@@ -6,6 +6,8 @@ export type AnyState =
   | null
   | undefined
   | Record<string, any>
+  | ReadonlyMap<any, any>
+  | ReadonlySet<any>
   | AnyState[];
 
 /** A function that computes the next state. */
@@ -16,6 +18,33 @@ export type Settable<T, U = T> = T | Setter<T, U>;
 export type ChangeSubscriber<T> = (oldState: T, newState: T) => void;
 /** A function that compares the equality of the old and new state.*/
 export type StateComparer<T> = (oldState: T, newState: T) => boolean;
+/**
+ * A function that intercepts an update before it is applied.
+ * Return the next state (or a transformed state) to continue the update,
+ * return the old state to veto the update, or throw to reject it.
+ */
+export type Middleware<T extends AnyState> = (
+  next: T,
+  oldState: T,
+  store: StoreAPI<T>
+) => T;
+
+/** Options for subscribing to a value selected from the state. */
+export type SubscribeOptions<U> = {
+  /**
+   * Compares the previously selected and next value:
+   * The listener is not called if the values are equal.
+   *
+   * The default is `Object.is`.
+   */
+  equals?: StateComparer<U>;
+  /**
+   * Calls the listener with the current value when subscribing.
+   *
+   * @default false
+   */
+  fireImmediately?: boolean;
+};
 
 /** A store that notifies its subscribers when the state changes. */
 export type StoreAPI<T extends AnyState = AnyState> = {
@@ -29,22 +58,99 @@ export type StoreAPI<T extends AnyState = AnyState> = {
    * Defaults to the `equals` option passed when creating the store.
    */
   set: (next: Settable<T>, equals?: StateComparer<T>) => void;
+  subscribe: {
+    /**
+     * Subscribes to state changes.
+     * Use the returned function to unsubscribe.
+     * @param subscriber Called when the state changes.
+     */
+    (subscriber: ChangeSubscriber<T>): () => void;
+    /**
+     * Subscribes to changes of a value selected from the state.
+     * Use the returned function to unsubscribe.
+     * @param select A function that returns a value from the state.
+     * @param listener Called with the old and new value when the selected value changes.
+     * @param options (Optional) Configure when the listener is called.
+     * @example
+     * ```ts
+     * store.subscribe(
+     *   (state) => state.user,
+     *   (oldUser, newUser) => console.log(newUser),
+     *   { fireImmediately: true }
+     * );
+     * ```
+     */
+    <U>(
+      select: (state: T) => U,
+      listener: ChangeSubscriber<U>,
+      options?: SubscribeOptions<U>
+    ): () => void;
+  };
   /**
-   * Subscribes to state changes.
-   * Use the returned function to unsubscribe.
-   * @param subscriber Called when the state changes.
+   * Applies all updates made within the callback as a single update:
+   * subscribers are notified once the outermost batch has finished,
+   * with the state from before and after the batch.
+   * If those are equal according to the store's `equals` option,
+   * the state is left as it was and subscribers are not notified.
+   *
+   * If the callback throws, the state is rolled back and the error is rethrown.
+   * @param fn A function that updates the state one or more times.
+   * @example
+   * ```ts
+   * store.batch(() => {
+   *   store.patch({ a: 2 });
+   *   store.patch({ b: 3 });
+   * });
+   * ```
    */
-  subscribe: (subscriber: ChangeSubscriber<T>) => () => void;
+  batch: (fn: () => void) => void;
+  /**
+   * Adds a middleware that intercepts updates before they are applied.
+   * Middleware is called in the order it was added.
+   * Use the returned function to remove it.
+   * @param middleware Receives the next state, and returns the state to apply.
+   * @example
+   * ```ts
+   * store.intercept((next, oldState) => (next.count < 0 ? oldState : next));
+   * ```
+   */
+  intercept: (middleware: Middleware<T>) => () => void;
+  /**
+   * Destroys the store: calls the functions registered with `onDestroy`,
+   * then removes all subscribers and middleware.
+   *
+   * Use this when the store is no longer needed,
+   * e.g. at the end of a test or before a module is hot-reloaded.
+   */
+  destroy: () => void;
+  /**
+   * Registers a function that is called when the store is destroyed,
+   * e.g. to remove listeners or to flush pending work in a plugin.
+   * Use the returned function to unregister it.
+   * @param cleanup Called when the store is destroyed.
+   * @example
+   * ```ts
+   * const unsubscribe = store.subscribe(save);
+   *
+   * store.onDestroy(unsubscribe);
+   * ```
+   */
+  onDestroy: (cleanup: () => void) => () => void;
 };
 
 /** Defines the default behavior of the store. */
-export type StoreOptions<T> = {
+export type StoreOptions<T extends AnyState> = {
   /**
    * The default equality comparer for the store.
    *
    * The default is `Object.is`.
    */
   equals?: StateComparer<T>;
+  /**
+   * Intercepts updates before they are applied,
+   * see `StoreAPI.intercept`.
+   */
+  middleware?: Middleware<T>[];
 };
 
 /**
@@ -69,24 +175,102 @@ export default function createStore<T extends AnyState>(
 ): StoreAPI<T> {
   let state = initialState;
   let subscribers: ChangeSubscriber<T>[] = [];
+  let middleware = options?.middleware ?? [];
+  let cleanups: (() => void)[] = [];
+  let depth = 0;
+
+  const notify = (oldState: T, newState: T) =>
+    subscribers.forEach((callback) => callback(oldState, newState));
 
-  return {
+  const store: StoreAPI<T> = {
     get: () => state,
     set: (next, equals = options?.equals || Object.is) => {
       const oldState = state;
-      const newState = typeof next === "function" ? next(oldState) : next;
+      const newState = middleware.reduce(
+        (state, intercept) => intercept(state, oldState, store),
+        typeof next === "function" ? next(oldState) : next
+      );
 
       if (!equals(oldState, newState)) {
         state = newState;
-        subscribers.forEach((callback) => callback(oldState, newState));
+
+        if (!depth) notify(oldState, newState);
       }
     },
-    subscribe: (subscriber) => {
+    subscribe: (
+      subscriber: ChangeSubscriber<T> | ((state: T) => any),
+      listener?: ChangeSubscriber<any>,
+      options?: SubscribeOptions<any>
+    ) => {
+      if (listener) {
+        const select = subscriber as (state: T) => any;
+        const equals = options?.equals || Object.is;
+        let value = select(state);
+
+        if (options?.fireImmediately) listener(value, value);
+
+        subscriber = (_, newState) => {
+          const oldValue = value;
+          const newValue = select(newState);
+
+          if (!equals(oldValue, newValue)) {
+            value = newValue;
+            listener(oldValue, newValue);
+          }
+        };
+      }
+
       subscribers.push(subscriber);
 
       return () => {
         subscribers = subscribers.filter((callback) => callback !== subscriber);
       };
     },
+    batch: (fn) => {
+      const oldState = state;
+
+      depth++;
+
+      try {
+        fn();
+      } catch (error) {
+        state = oldState;
+        throw error;
+      } finally {
+        depth--;
+      }
+
+      if (depth) return;
+
+      if ((options?.equals || Object.is)(oldState, state)) {
+        state = oldState;
+      } else {
+        notify(oldState, state);
+      }
+    },
+    intercept: (intercept) => {
+      middleware = [...middleware, intercept];
+
+      return () => {
+        middleware = middleware.filter((other) => other !== intercept);
+      };
+    },
+    destroy: () => {
+      const callbacks = cleanups;
+
+      cleanups = [];
+      callbacks.forEach((cleanup) => cleanup());
+      subscribers = [];
+      middleware = [];
+    },
+    onDestroy: (cleanup) => {
+      cleanups = [...cleanups, cleanup];
+
+      return () => {
+        cleanups = cleanups.filter((other) => other !== cleanup);
+      };
+    },
   };
+
+  return store;
 }
@@ -0,0 +1,50 @@
+import { it, describe, expect, jest } from "bun:test";
+import createStore from "./store";
+import svelteStore from "./svelte";
+
+describe("Svelte store", () => {
+  it("calls the subscriber immediately", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const run = jest.fn();
+
+    svelteStore(store, (state) => state.a).subscribe(run);
+
+    expect(run).toHaveBeenCalledWith(1);
+  });
+
+  it("calls the subscriber when the selected value changes", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const run = jest.fn();
+
+    svelteStore(store, (state) => state.a).subscribe(run);
+    store.set({ a: 1, b: 2 });
+    store.set({ a: 2, b: 2 });
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(2);
+  });
+
+  it("compares the selected values", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const run = jest.fn();
+
+    svelteStore(
+      store,
+      (state) => ({ a: state.a }),
+      (prev, next) => prev.a === next.a
+    ).subscribe(run);
+    store.set({ a: 1, b: 2 });
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("unsubscribes", () => {
+    const store = createStore<number>(1);
+    const run = jest.fn();
+
+    svelteStore(store).subscribe(run)();
+    store.set(2);
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { AnyState, StateComparer } from "./store";
+import { ReadonlyStoreAPI } from "./derive";
+import { memoSelector, StateSelector } from "./selector";
+
+/** A readable store that follows the Svelte store contract. */
+export type SvelteReadable<U> = {
+  /**
+   * Calls the subscriber with the current value, and then whenever it changes.
+   * Use the returned function to unsubscribe.
+   * @param run Called with the current value.
+   */
+  subscribe: (run: (value: U) => void) => () => void;
+};
+
+/**
+ * Creates a Svelte store that reacts to state changes within a store,
+ * which can be used with the `$store` syntax in Svelte components.
+ * @param store The store to react to.
+ * @param select (Optional) A function that returns a value from the state.
+ * @param equals (Optional) Compare the previously selected and next value:
+ * If the values are equal between updates, subscribers are not called.
+ * The default is `Object.is`.
+ * @template T The type of the state.
+ * @template U The type of the selected value.
+ * @example
+ * ```svelte
+ * <script>
+ *   import svelteStore from "tyin/svelte";
+ *
+ *   const a = svelteStore(exampleStore, (state) => state.a);
+ * </script>
+ *
+ * <p>{$a}</p>
+ * ```
+ */
+export default function svelteStore<T extends AnyState, U = T>(
+  store: ReadonlyStoreAPI<T>,
+  select?: StateSelector<T, U>,
+  equals?: StateComparer<U>
+): SvelteReadable<U> {
+  return {
+    subscribe: (run) => {
+      const selectValue = memoSelector(select, equals);
+      let value = selectValue(store.get());
+
+      run(value);
+
+      return store.subscribe((_, state) => {
+        const next = selectValue(state);
+
+        if (!Object.is(value, next)) run((value = next));
+      });
+    },
+  };
+}
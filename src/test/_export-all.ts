@@ -2,6 +2,26 @@
 export * from "../hook";
 export * from "../store";
 export * from "../extend";
+export * from "../context";
+export * from "../derive";
+export * from "../equals";
 export * from "../plugin-array";
+export * from "../plugin-async";
+export * from "../plugin-devtools";
+export * from "../plugin-draft";
+export * from "../plugin-entities";
+export * from "../plugin-history";
+export * from "../plugin-map";
 export * from "../plugin-object";
 export * from "../plugin-persist";
+export * from "../plugin-set";
+export * from "../plugin-sync";
+export * from "../plugin-validate";
+export * from "../persist-paths";
+export * from "../preact";
+export * from "../selector";
+export * from "../serializer";
+export * from "../ssr";
+export * from "../svelte";
+export * from "../use-shallow";
+export * from "../vue";
@@ -8,12 +8,32 @@ await Bun.build({
     "src/hook.ts",
     "src/store.ts",
     "src/extend.ts",
+    "src/context.ts",
+    "src/derive.ts",
+    "src/equals.ts",
     "src/plugin-object.ts",
     "src/plugin-array.ts",
+    "src/plugin-async.ts",
+    "src/plugin-devtools.ts",
+    "src/plugin-draft.ts",
+    "src/plugin-entities.ts",
+    "src/plugin-history.ts",
+    "src/plugin-map.ts",
     "src/plugin-persist.ts",
+    "src/plugin-set.ts",
+    "src/plugin-sync.ts",
+    "src/plugin-validate.ts",
+    "src/persist-paths.ts",
+    "src/preact.ts",
+    "src/selector.ts",
+    "src/serializer.ts",
+    "src/ssr.ts",
+    "src/svelte.ts",
+    "src/use-shallow.ts",
+    "src/vue.ts",
   ],
   outdir: "src/test/.dist",
-  external: ["react"],
+  external: ["react", "preact", "preact/compat", "vue"],
   minify: true,
 });
 
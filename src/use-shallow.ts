@@ -0,0 +1,27 @@
+import React from "react";
+import { memoSelector, StateSelector } from "./selector";
+import { shallow } from "./equals";
+
+/**
+ * Returns a selector that keeps returning the previously selected value,
+ * for as long as the next value is shallowly equal to it.
+ * Use this when a selector returns a new object or array on every call.
+ * @param select A function that returns a value from the state.
+ * @template T The type of the state.
+ * @template U The type of the selected value.
+ * @example
+ * ```ts
+ * import useShallow from "tyin/use-shallow";
+ *
+ * const { a, b } = useExample(
+ *   useShallow((state) => ({ a: state.a, b: state.b }))
+ * );
+ * ```
+ */
+export default function useShallow<T, U>(
+  select: StateSelector<T, U>
+): StateSelector<T, U> {
+  const ref = React.useRef<any>();
+
+  return memoSelector(select, shallow, ref);
+}
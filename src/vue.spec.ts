@@ -0,0 +1,45 @@
+import { it, describe, expect, jest } from "bun:test";
+import { effectScope, watchEffect } from "vue";
+import createStore from "./store";
+import useStoreRef from "./vue";
+
+describe("Vue composable", () => {
+  it("returns a ref to the selected value", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const a = useStoreRef(store, (state) => state.a);
+
+    expect(a.value).toEqual(1);
+
+    store.set({ a: 2, b: 1 });
+
+    expect(a.value).toEqual(2);
+  });
+
+  it("triggers effects when the selected value changes", () => {
+    const store = createStore({ a: 1, b: 1 });
+    const effect = jest.fn();
+
+    effectScope().run(() => {
+      const a = useStoreRef(store, (state) => state.a);
+
+      watchEffect(() => effect(a.value), { flush: "sync" });
+    });
+
+    store.set({ a: 1, b: 2 });
+    store.set({ a: 2, b: 2 });
+
+    expect(effect).toHaveBeenCalledTimes(2);
+    expect(effect).toHaveBeenLastCalledWith(2);
+  });
+
+  it("unsubscribes when the scope is disposed", () => {
+    const store = createStore<number>(1);
+    const scope = effectScope();
+    const count = scope.run(() => useStoreRef(store))!;
+
+    scope.stop();
+    store.set(2);
+
+    expect(count.value).toEqual(1);
+  });
+});
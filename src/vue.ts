@@ -0,0 +1,63 @@
+import { customRef, getCurrentScope, onScopeDispose, Ref } from "vue";
+import { AnyState, StateComparer } from "./store";
+import { ReadonlyStoreAPI } from "./derive";
+import { memoSelector, StateSelector } from "./selector";
+
+/**
+ * A composable that returns a read-only ref to the state of a store,
+ * or to a value selected from it, which updates when the value changes.
+ *
+ * The subscription ends when the current effect scope is disposed,
+ * e.g. when the component unmounts.
+ * Outside of an effect scope the ref stays subscribed for as long as
+ * the store exists, so call it in `setup` or within an `effectScope`.
+ * @param store The store to react to.
+ * @param select (Optional) A function that returns a value from the state.
+ * @param equals (Optional) Compare the previously selected and next value:
+ * If the values are equal between updates, the ref does not update.
+ * The default is `Object.is`.
+ * @template T The type of the state.
+ * @template U The type of the selected value.
+ * @example
+ * ```vue
+ * <script setup>
+ * import useStoreRef from "tyin/vue";
+ *
+ * const a = useStoreRef(exampleStore, (state) => state.a);
+ * </script>
+ *
+ * <template>
+ *   <p>{{ a }}</p>
+ * </template>
+ * ```
+ */
+export default function useStoreRef<T extends AnyState, U = T>(
+  store: ReadonlyStoreAPI<T>,
+  select?: StateSelector<T, U>,
+  equals?: StateComparer<U>
+): Readonly<Ref<U>> {
+  return customRef<U>((track, trigger) => {
+    const selectValue = memoSelector(select, equals);
+    let value = selectValue(store.get());
+
+    const unsubscribe = store.subscribe((_, state) => {
+      const next = selectValue(state);
+
+      if (!Object.is(value, next)) {
+        value = next;
+        trigger();
+      }
+    });
+
+    if (getCurrentScope()) onScopeDispose(unsubscribe);
+
+    return {
+      get: () => {
+        track();
+
+        return value;
+      },
+      set: () => {},
+    };
+  });
+}